@@ -0,0 +1,342 @@
+import { DebugLogger } from '@paws/debug-logger';
+import type { BaseStorage } from '@paws/storage';
+import type { DiscordWebSocket } from '@/gateway/DiscordWebSocket';
+import type { DispatchEvents } from '@/gateway/dispatch';
+import type {
+  AvailableGuildCreate,
+  Channel,
+  GuildMember,
+  GuildMemberChunk,
+  PresenceUpdate,
+  Ready,
+  Role,
+  User
+} from '@/gateway/types';
+import { createStore, type CachePolicy, type CacheStore } from './stores';
+
+export type CacheEntity = 'guilds' | 'channels' | 'members' | 'roles' | 'presences' | 'users';
+
+export type CachedGuild = Omit<AvailableGuildCreate, 'roles' | 'channels' | 'threads' | 'members' | 'presences'>;
+export type CachedMember = GuildMember & { guild_id: string };
+export type CachedRole = Role & { guild_id: string };
+export type CachedPresence = PresenceUpdate;
+
+export interface GatewayCacheOptions {
+  /** Per-entity policy, defaults to `unbounded` for everything. */
+  policies?: Partial<Record<CacheEntity, CachePolicy>>;
+  /** Optional write-through persistence; call `hydrate()` to load it back. */
+  storage?: BaseStorage<CacheEntity>;
+  logger?: DebugLogger;
+}
+
+type CacheListeners = { [K in keyof DispatchEvents]?: (data: DispatchEvents[K]) => void } & {
+  ready?: (data: Ready) => void;
+};
+
+const ENTITIES: CacheEntity[] = ['guilds', 'channels', 'members', 'roles', 'presences', 'users'];
+
+function memberKey(guildId: string, userId: string): string {
+  return `${guildId}:${userId}`;
+}
+
+/**
+ * In-memory view of guilds, channels, members, roles, presences and users,
+ * kept up to date from the dispatches of one `DiscordWebSocket`.
+ */
+export class GatewayCache {
+  private guilds: CacheStore<CachedGuild>;
+  private channels: CacheStore<Channel>;
+  private members: CacheStore<CachedMember>;
+  private roles: CacheStore<CachedRole>;
+  private presences: CacheStore<CachedPresence>;
+  private users: CacheStore<User>;
+  private unavailableGuilds = new Set<string>();
+  private listeners: CacheListeners = {};
+  private policies: Record<CacheEntity, CachePolicy>;
+  private storage: BaseStorage<CacheEntity> | null;
+  private logger: DebugLogger;
+
+  constructor(private ws: DiscordWebSocket, options: GatewayCacheOptions = {}) {
+    this.policies = {
+      guilds: 'unbounded',
+      channels: 'unbounded',
+      members: 'unbounded',
+      roles: 'unbounded',
+      presences: 'unbounded',
+      users: 'unbounded',
+      ...options.policies
+    };
+    this.storage = options.storage ?? null;
+    this.logger = options.logger ?? new DebugLogger();
+
+    this.guilds = createStore(this.policies.guilds, key => this.forget('guilds', key));
+    this.channels = createStore(this.policies.channels, key => this.forget('channels', key));
+    this.members = createStore(this.policies.members, key => this.forget('members', key));
+    this.roles = createStore(this.policies.roles, key => this.forget('roles', key));
+    this.presences = createStore(this.policies.presences, key => this.forget('presences', key));
+    this.users = createStore(this.policies.users, key => this.forget('users', key));
+
+    this.attach();
+  }
+
+  private attach(): void {
+    this.listeners = {
+      ready: (ready) => this.handleReady(ready),
+      guildCreate: (guild) => {
+        if (!('name' in guild)) {
+          this.unavailableGuilds.add(guild.id);
+          return;
+        }
+        this.handleGuildCreate(guild);
+      },
+      guildUpdate: (guild) => {
+        const existing = this.guilds.get(guild.id);
+        this.put('guilds', this.guilds, guild.id, { ...existing, ...guild });
+        guild.roles.forEach(role => this.put('roles', this.roles, role.id, { ...role, guild_id: guild.id }));
+      },
+      guildDelete: (guild) => {
+        if (guild.unavailable) {
+          this.unavailableGuilds.add(guild.id);
+          return;
+        }
+        this.removeGuild(guild.id);
+      },
+      channelCreate: (channel) => this.put('channels', this.channels, channel.id, channel),
+      channelUpdate: (channel) => this.put('channels', this.channels, channel.id, channel),
+      channelDelete: (channel) => this.remove('channels', this.channels, channel.id),
+      threadCreate: (thread) => this.put('channels', this.channels, thread.id, thread),
+      threadUpdate: (thread) => this.put('channels', this.channels, thread.id, thread),
+      threadDelete: (thread) => this.remove('channels', this.channels, thread.id),
+      threadListSync: (sync) => {
+        sync.threads.forEach(thread => this.put('channels', this.channels, thread.id, thread));
+      },
+      guildMemberAdd: (member) => this.putMember(member.guild_id, member),
+      guildMemberUpdate: (member) => {
+        const existing = this.members.get(memberKey(member.guild_id, member.user.id));
+        this.putMember(member.guild_id, { ...existing, ...member });
+      },
+      guildMemberRemove: ({ guild_id, user }) => {
+        this.remove('members', this.members, memberKey(guild_id, user.id));
+        this.remove('presences', this.presences, memberKey(guild_id, user.id));
+      },
+      guildMemberChunk: (chunk) => this.handleMemberChunk(chunk),
+      guildRoleCreate: ({ guild_id, role }) => this.put('roles', this.roles, role.id, { ...role, guild_id }),
+      guildRoleUpdate: ({ guild_id, role }) => this.put('roles', this.roles, role.id, { ...role, guild_id }),
+      guildRoleDelete: ({ role_id }) => this.remove('roles', this.roles, role_id),
+      presenceUpdate: (presence) => this.putPresence(presence),
+      userUpdate: (user) => this.put('users', this.users, user.id, user),
+      messageCreate: (message) => this.put('users', this.users, message.author.id, message.author)
+    };
+
+    for (const [event, listener] of Object.entries(this.listeners)) {
+      if (!this.ws.canReceive(event)) continue;
+      this.ws.on(event, listener as (data: unknown) => void);
+    }
+  }
+
+  /**
+   * Stops listening to the socket. Cached data is kept.
+   */
+  detach(): void {
+    for (const [event, listener] of Object.entries(this.listeners)) {
+      this.ws.off(event, listener as (data: unknown) => void);
+    }
+    this.listeners = {};
+  }
+
+  private handleReady(ready: Ready): void {
+    this.put('users', this.users, ready.user.id, ready.user as User);
+
+    for (const guild of ready.guilds) {
+      // User accounts receive full guild objects in READY, bots only get unavailable stubs.
+      if ('name' in guild) {
+        this.handleGuildCreate(guild as unknown as AvailableGuildCreate);
+      } else {
+        this.unavailableGuilds.add(guild.id);
+      }
+    }
+  }
+
+  private handleGuildCreate(guild: AvailableGuildCreate): void {
+    const { roles, channels, threads, members, presences, ...rest } = guild;
+
+    this.unavailableGuilds.delete(guild.id);
+    this.put('guilds', this.guilds, guild.id, rest);
+
+    roles?.forEach(role => this.put('roles', this.roles, role.id, { ...role, guild_id: guild.id }));
+    channels?.forEach(channel => this.put('channels', this.channels, channel.id, { ...channel, guild_id: guild.id }));
+    threads?.forEach(thread => this.put('channels', this.channels, thread.id, { ...thread, guild_id: guild.id }));
+    members?.forEach(member => this.putMember(guild.id, member));
+    presences?.forEach(presence => this.putPresence({
+      status: 'offline',
+      activities: [],
+      client_status: {},
+      ...presence,
+      guild_id: guild.id
+    }));
+  }
+
+  private handleMemberChunk(chunk: GuildMemberChunk): void {
+    chunk.members.forEach(member => this.putMember(chunk.guild_id, member));
+    chunk.presences?.forEach(presence => this.putPresence({
+      user: presence.user,
+      guild_id: chunk.guild_id,
+      status: presence.status,
+      activities: (presence.activities ?? []) as PresenceUpdate['activities'],
+      client_status: presence.client_status ?? {}
+    }));
+  }
+
+  private putMember(guildId: string, member: GuildMember): void {
+    if (!member.user) return;
+
+    this.put('users', this.users, member.user.id, member.user);
+    this.put('members', this.members, memberKey(guildId, member.user.id), { ...member, guild_id: guildId });
+  }
+
+  private putPresence(presence: PresenceUpdate): void {
+    if (presence.user.username !== undefined) {
+      const existing = this.users.get(presence.user.id);
+      this.put('users', this.users, presence.user.id, { ...existing, ...presence.user } as User);
+    }
+
+    this.put('presences', this.presences, memberKey(presence.guild_id ?? '@me', presence.user.id), presence);
+  }
+
+  private removeGuild(guildId: string): void {
+    this.remove('guilds', this.guilds, guildId);
+    this.unavailableGuilds.delete(guildId);
+
+    for (const [key, channel] of [...this.channels.entries()]) {
+      if (channel.guild_id === guildId) this.remove('channels', this.channels, key);
+    }
+    for (const [key, role] of [...this.roles.entries()]) {
+      if (role.guild_id === guildId) this.remove('roles', this.roles, key);
+    }
+    for (const [key, member] of [...this.members.entries()]) {
+      if (member.guild_id === guildId) this.remove('members', this.members, key);
+    }
+    for (const [key, presence] of [...this.presences.entries()]) {
+      if (presence.guild_id === guildId) this.remove('presences', this.presences, key);
+    }
+  }
+
+  private put<V>(entity: CacheEntity, store: CacheStore<V>, key: string, value: V): void {
+    if (this.policies[entity] === 'none') return;
+
+    store.set(key, value);
+    this.storage?.set(entity, key, value).catch((error) => {
+      this.logger.logError(`Failed to persist ${entity}.${key}`, error);
+    });
+  }
+
+  private remove<V>(entity: CacheEntity, store: CacheStore<V>, key: string): void {
+    store.delete(key);
+    this.forget(entity, key);
+  }
+
+  /**
+   * Drops a key from persistence. Also called for LRU evictions, so `hydrate()`
+   * never loads more than the store kept.
+   */
+  private forget(entity: CacheEntity, key: string): void {
+    this.storage?.delete(entity, key).catch((error) => {
+      this.logger.logError(`Failed to delete persisted ${entity}.${key}`, error);
+    });
+  }
+
+  /**
+   * Loads previously persisted entities into memory, respecting each policy.
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) return;
+
+    const stores: Record<CacheEntity, CacheStore<unknown>> = {
+      guilds: this.guilds,
+      channels: this.channels,
+      members: this.members,
+      roles: this.roles,
+      presences: this.presences,
+      users: this.users
+    };
+
+    for (const entity of ENTITIES) {
+      if (this.policies[entity] === 'none') continue;
+
+      const keys = await this.storage.keys(entity);
+      for (const key of keys) {
+        const value = await this.storage.get(entity, key);
+        if (value !== null) {
+          stores[entity].set(String(key), value);
+        }
+      }
+    }
+
+    this.logger.logInfo('Gateway cache hydrated', this.getStats());
+  }
+
+  getGuild(guildId: string): CachedGuild | undefined {
+    return this.guilds.get(guildId);
+  }
+
+  getGuilds(): CachedGuild[] {
+    return [...this.guilds.values()];
+  }
+
+  isGuildUnavailable(guildId: string): boolean {
+    return this.unavailableGuilds.has(guildId);
+  }
+
+  getChannel(channelId: string): Channel | undefined {
+    return this.channels.get(channelId);
+  }
+
+  getGuildChannels(guildId: string): Channel[] {
+    return [...this.channels.values()].filter(channel => channel.guild_id === guildId);
+  }
+
+  getMember(guildId: string, userId: string): CachedMember | undefined {
+    return this.members.get(memberKey(guildId, userId));
+  }
+
+  getGuildMembers(guildId: string): CachedMember[] {
+    return [...this.members.values()].filter(member => member.guild_id === guildId);
+  }
+
+  getRole(roleId: string): CachedRole | undefined {
+    return this.roles.get(roleId);
+  }
+
+  getGuildRoles(guildId: string): CachedRole[] {
+    return [...this.roles.values()].filter(role => role.guild_id === guildId);
+  }
+
+  getPresence(userId: string, guildId?: string): CachedPresence | undefined {
+    return this.presences.get(memberKey(guildId ?? '@me', userId));
+  }
+
+  getUser(userId: string): User | undefined {
+    return this.users.get(userId);
+  }
+
+  getStats(): Record<CacheEntity, number> {
+    return {
+      guilds: this.guilds.size(),
+      channels: this.channels.size(),
+      members: this.members.size(),
+      roles: this.roles.size(),
+      presences: this.presences.size(),
+      users: this.users.size()
+    };
+  }
+
+  clear(): void {
+    this.guilds.clear();
+    this.channels.clear();
+    this.members.clear();
+    this.roles.clear();
+    this.presences.clear();
+    this.users.clear();
+    this.unavailableGuilds.clear();
+  }
+}
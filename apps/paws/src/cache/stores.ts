@@ -0,0 +1,122 @@
+export type CachePolicy = 'none' | 'unbounded' | { type: 'lru'; maxSize: number };
+
+export interface CacheStore<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): boolean;
+  has(key: string): boolean;
+  values(): IterableIterator<V>;
+  entries(): IterableIterator<[string, V]>;
+  size(): number;
+  clear(): void;
+}
+
+class NoopStore<V> implements CacheStore<V> {
+  get(): V | undefined {
+    return undefined;
+  }
+
+  set(): void { }
+
+  delete(): boolean {
+    return false;
+  }
+
+  has(): boolean {
+    return false;
+  }
+
+  values(): IterableIterator<V> {
+    return new Map<string, V>().values();
+  }
+
+  entries(): IterableIterator<[string, V]> {
+    return new Map<string, V>().entries();
+  }
+
+  size(): number {
+    return 0;
+  }
+
+  clear(): void { }
+}
+
+class MapStore<V> implements CacheStore<V> {
+  protected items = new Map<string, V>();
+
+  get(key: string): V | undefined {
+    return this.items.get(key);
+  }
+
+  set(key: string, value: V): void {
+    this.items.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.items.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.items.has(key);
+  }
+
+  values(): IterableIterator<V> {
+    return this.items.values();
+  }
+
+  entries(): IterableIterator<[string, V]> {
+    return this.items.entries();
+  }
+
+  size(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+/**
+ * Map insertion order doubles as recency order: reads and writes move the
+ * key to the end, and the first key is evicted once `maxSize` is exceeded.
+ */
+class LruStore<V> extends MapStore<V> {
+  constructor(private maxSize: number, private onEvict?: (key: string) => void) {
+    super();
+  }
+
+  override get(key: string): V | undefined {
+    const value = this.items.get(key);
+    if (value !== undefined) {
+      this.items.delete(key);
+      this.items.set(key, value);
+    }
+    return value;
+  }
+
+  override set(key: string, value: V): void {
+    this.items.delete(key);
+    this.items.set(key, value);
+
+    while (this.items.size > this.maxSize) {
+      const oldest = this.items.keys().next().value;
+      if (oldest === undefined) break;
+      this.items.delete(oldest);
+      this.onEvict?.(oldest);
+    }
+  }
+}
+
+/**
+ * `onEvict` is called with every key an LRU policy drops to stay within `maxSize`.
+ */
+export function createStore<V>(policy: CachePolicy, onEvict?: (key: string) => void): CacheStore<V> {
+  if (policy === 'none') {
+    return new NoopStore<V>();
+  }
+  if (policy === 'unbounded') {
+    return new MapStore<V>();
+  }
+  return new LruStore<V>(Math.max(1, policy.maxSize), onEvict);
+}
@@ -11,3 +11,7 @@ export const DEFAULT_IDENTITY: Omit<Identify, "token"> = {
   compress: false,
   large_threshold: 100,
 };
+
+export const GATEWAY_VERSION = 10;
+
+export const DEFAULT_GATEWAY_URL = "wss://gateway.discord.gg";
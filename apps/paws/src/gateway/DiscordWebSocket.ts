@@ -1,28 +1,149 @@
 import { EventEmitter } from '@paws/event-emitter';
+import { randomUUID } from 'node:crypto';
+import type { z } from 'zod';
 import type {
   GatewayPayload,
   Identify,
   Resume,
   Heartbeat,
   Ready,
-  ChannelPinsUpdate,
-  TypingStart,
-  VoiceChannelEffectSend,
-  WebhooksUpdate,
-  MessagePollVoteAdd,
-  MessagePollVoteRemove,
-  Channel
+  GuildMemberChunk,
+  VoiceState,
+  VoiceServerUpdate,
+  VoiceStateUpdate
 } from './types';
+import { GuildMemberChunkSchema, ReadySchema, VoiceServerUpdateSchema, VoiceStateSchema } from './types';
 import type { RateLimited } from "@paws/shared-types"
+import { RateLimitedSchema } from '@paws/shared-types';
 import { OpCode } from './opcodes';
 import type { Presence } from '@/presence/models';
-import { DEFAULT_IDENTITY } from '@/constants';
+import { DEFAULT_GATEWAY_URL, DEFAULT_IDENTITY, GATEWAY_VERSION } from '@/constants';
 import { DebugLogger } from '@paws/debug-logger';
 import { RateLimiter } from '@paws/rate-limiter';
 import { ConnectionMonitor } from '@paws/connection-monitor';
-import type { SessionStorage, SessionData } from '@/storage/session';
+import { checkSession, type SessionStorage, type SessionData, type IdentifyBudget } from '@/storage/session';
+import { ZlibStreamInflater, toUint8Array, type GatewayCompression } from './compression';
+import { createCodec, type GatewayCodec, type GatewayEncoding } from './codec';
+import { getDispatchEntry, type DispatchEvents } from './dispatch';
+import { SendQueue, type SendQueueOptions } from './SendQueue';
+import {
+  classifyCloseCode,
+  exponentialBackoff,
+  type BackoffStrategy,
+  type FatalClose,
+  type ReconnectOptions
+} from './reconnect';
+import type { SessionRecorder } from './recording';
+import {
+  MiddlewarePipeline,
+  inboundLoggingMiddleware,
+  inboundMetricsMiddleware,
+  outboundLoggingMiddleware,
+  outboundMetricsMiddleware,
+  rateLimitMiddleware,
+  type InboundContext,
+  type InboundMiddleware,
+  type MiddlewareDirection,
+  type OutboundContext,
+  type OutboundMiddleware
+} from './middleware';
+import {
+  WebSocketTransport,
+  type GatewayTransport,
+  type GatewayTransportFactory,
+  type WebSocketTransportOptions
+} from './transport';
+import {
+  IdentifyLimiter,
+  fetchGatewayInfo,
+  type GatewayDiscoveryOptions,
+  type IdentifyBudgetMode
+} from './discovery';
+import { TimerHeartbeatScheduler, type HeartbeatScheduler } from './heartbeat';
+import { EVENT_INTENTS, IntentsBitField, describeIntentClose, type IntentName } from './intents';
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+export interface SchemaMismatch {
+  event: string;
+  mode: Exclude<ValidationMode, 'off'>;
+  paths: string[];
+  issues: z.core.$ZodIssue[];
+  dropped: boolean;
+}
+
+export interface SequenceGap {
+  /** First and last missing sequence numbers. */
+  from: number;
+  to: number;
+  missing: number;
+  /** True when the gap exceeded `maxSequenceGap` and a fresh session is being identified. */
+  reidentifying: boolean;
+}
+
+export interface CloseOptions {
+  /** Keep the session resumable instead of ending it. */
+  resumable?: boolean;
+}
+
+export interface RequestGuildMembersOptions {
+  query?: string;
+  limit?: number;
+  presences?: boolean;
+  userIds?: string | string[];
+  nonce?: string;
+}
+
+export interface FetchGuildMembersOptions extends Omit<RequestGuildMembersOptions, 'nonce'> {
+  /** Maximum time to wait between chunks before rejecting. Defaults to 30 seconds. */
+  timeout?: number;
+}
+
+export interface FetchedGuildMembers {
+  guildId: string;
+  members: GuildMemberChunk['members'];
+  presences: NonNullable<GuildMemberChunk['presences']>;
+  notFound: string[];
+}
+
+interface PendingMemberRequest {
+  result: FetchedGuildMembers;
+  timeout: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: FetchedGuildMembers) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_MEMBER_REQUEST_TIMEOUT = 30_000;
+
+export interface JoinVoiceChannelOptions {
+  selfMute?: boolean;
+  selfDeaf?: boolean;
+  /** Maximum time to wait for both voice dispatches. Defaults to 10 seconds. */
+  timeout?: number;
+}
+
+export interface VoiceConnectionInfo {
+  guildId: string;
+  channelId: string;
+  userId: string;
+  sessionId: string;
+  token: string;
+  endpoint: string;
+}
+
+interface PendingVoiceJoin {
+  channelId: string;
+  sessionId: string | null;
+  server: { token: string; endpoint: string } | null;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (info: VoiceConnectionInfo) => void;
+  reject: (error: Error) => void;
+}
 
-export interface DiscordGatewayEvents extends Record<string, unknown> {
+const DEFAULT_VOICE_JOIN_TIMEOUT = 10_000;
+
+export interface DiscordGatewayEvents extends DispatchEvents, Record<string, unknown> {
   ready: Ready;
   resumed: void;
   error: Error;
@@ -30,51 +151,136 @@ export interface DiscordGatewayEvents extends Record<string, unknown> {
   heartbeatAck: void;
   rateLimited: { opcode: number; retryAfter: number; meta?: unknown };
   sessionRestored: boolean;
-  channelPinsUpdate: ChannelPinsUpdate;
-  typingStart: TypingStart;
-  voiceChannelEffectSend: VoiceChannelEffectSend;
-  webhooksUpdate: WebhooksUpdate;
-  messagePollVoteAdd: MessagePollVoteAdd;
-  messagePollVoteRemove: MessagePollVoteRemove;
-  guildMemberChunk: unknown;
-  channelCreate: Channel;
-  channelUpdate: Channel;
-  channelDelete: Channel;
+  schemaMismatch: SchemaMismatch;
+  fatalClose: FatalClose;
+  sequenceGap: SequenceGap;
+}
+
+export interface DiscordWebSocketOptions {
+  /** Transport compression. `zlib-stream` inflates the whole connection through one shared context. */
+  compression?: GatewayCompression;
+  /** Wire encoding, ignored when a custom `codec` is supplied. */
+  encoding?: GatewayEncoding;
+  codec?: GatewayCodec;
+  /** Key used for `SessionStorage`; defaults to the token. Needed when several sockets share one token. */
+  sessionKey?: string;
+  /** Awaited before every IDENTIFY, e.g. to queue identifies into concurrency buckets. */
+  beforeIdentify?: () => Promise<void>;
+  /**
+   * Validate dispatch payloads against their zod schemas. `warn` logs and emits
+   * `schemaMismatch`, `strict` additionally drops the payload. Defaults to `off`.
+   */
+  validation?: ValidationMode;
+  sendQueue?: SendQueueOptions;
+  reconnect?: ReconnectOptions;
+  /** Re-identify instead of carrying on when more dispatches than this are missing. Unset by default. */
+  maxSequenceGap?: number;
+  /** Gateway to connect to, e.g. a `MockGatewayServer`. Defaults to Discord's gateway. */
+  gatewayUrl?: string;
+  /** Look up the gateway URL over REST before the first connect instead of using the default. */
+  discovery?: GatewayDiscoveryOptions;
+  /** Behaviour once `session_start_limit` is used up. Defaults to `wait`. */
+  identifyBudget?: IdentifyBudgetMode;
+  /** Records every decoded payload sent and received, see `SessionReplayer` for playback. */
+  recorder?: SessionRecorder;
+  /** Creates the socket for each connection. Defaults to the global WebSocket. */
+  transport?: GatewayTransportFactory;
+  /** Headers and proxy for the default transport, ignored when `transport` is set. */
+  transportOptions?: WebSocketTransportOptions;
+  /** Shared logger, e.g. one for every account of an `RpcPool`. */
+  logger?: DebugLogger;
+  /** Shared monitor; `getConnectionMetrics()` then reports the totals of every socket using it. */
+  connectionMonitor?: ConnectionMonitor;
+  /** Client-side budget for presence updates, `false` to only honour RATE_LIMITED. Defaults to `DEFAULT_PRESENCE_LIMIT`. */
+  presenceLimit?: SendLimit | false;
+}
+
+export interface SendLimit {
+  limit: number;
+  /** Milliseconds. */
+  window: number;
 }
 
+export const DEFAULT_PRESENCE_LIMIT: SendLimit = { limit: 5, window: 20000 };
+
 export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
-  private ws: WebSocket | null = null;
-  private gatewayUrl = 'wss://gateway.discord.gg/?v=10&encoding=json';
+  private transport: GatewayTransport | null = null;
+  private gatewayUrl = DEFAULT_GATEWAY_URL;
   private sequence = 0;
   private sessionId: string | null = null;
   private resumeGatewayUrl: string | null = null;
   private heartbeatInterval = 0;
-  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  private heartbeatAckTimeout: ReturnType<typeof setTimeout> | null = null;
-  private heartbeatAckReceived = false;
+  private heartbeatScheduler: HeartbeatScheduler;
+  private heartbeatAckReceived = true;
+  private lastBeatAt = 0;
   private connected = false;
   private readyPromise: Promise<void> | null = null;
   private readyResolve: (() => void) | null = null;
+  private readyReject: ((error: Error) => void) | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  private maxReconnectAttempts: number;
+  private backoff: BackoffStrategy;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private isResuming = false;
   private sessionRestored = false;
+  private inflater: ZlibStreamInflater | null = null;
+  private codec: GatewayCodec;
+  private sessionKey: string;
+  private pendingMemberRequests = new Map<string, PendingMemberRequest>();
+  private pendingVoiceJoins = new Map<string, PendingVoiceJoin>();
+  private userId: string | null = null;
+  private sendQueue: SendQueue;
+  private inbound: MiddlewarePipeline<InboundContext>;
+  private outbound: MiddlewarePipeline<OutboundContext>;
+  private identifyLimiter: IdentifyLimiter;
+  private gatewayDiscovered = false;
+  private intents: IntentsBitField | null;
+  private warnedEvents = new Set<string>();
+  private identifyPresence: Presence | null = null;
 
   private debugLogger: DebugLogger;
   private rateLimiter: RateLimiter;
   private connectionMonitor: ConnectionMonitor;
   private sessionStorage: SessionStorage;
+  /** Last session read from or written to storage, kept across invalidation for the READY user check. */
+  private storedSession: SessionData | null = null;
+  // Set while `replayPayload` runs, so a recording never touches session storage, the send queue or the socket.
+  private replaying = false;
 
   constructor(
     private token: string,
     private IdentifyOverrides?: Omit<Identify, 'token'>,
-    sessionStorage?: SessionStorage
+    sessionStorage?: SessionStorage,
+    private options: DiscordWebSocketOptions = {}
   ) {
     super();
-    this.debugLogger = new DebugLogger();
+    this.debugLogger = options.logger ?? new DebugLogger();
     this.rateLimiter = new RateLimiter();
-    this.connectionMonitor = new ConnectionMonitor();
+    const presenceLimit = options.presenceLimit ?? DEFAULT_PRESENCE_LIMIT;
+    if (presenceLimit) {
+      this.rateLimiter.setLimit(OpCode.PRESENCE_UPDATE, presenceLimit.limit, presenceLimit.window);
+    }
+    this.connectionMonitor = options.connectionMonitor ?? new ConnectionMonitor();
     this.sessionStorage = sessionStorage ?? this.createDefaultSessionStorage();
+    this.codec = options.codec ?? createCodec(options.encoding);
+    this.sessionKey = options.sessionKey ?? token;
+    this.gatewayUrl = options.gatewayUrl ?? DEFAULT_GATEWAY_URL;
+    this.identifyLimiter = new IdentifyLimiter(token, this.sessionStorage, options.identifyBudget, this.debugLogger);
+    this.inbound = new MiddlewarePipeline<InboundContext>(
+      [inboundMetricsMiddleware(this.connectionMonitor)],
+      [inboundLoggingMiddleware(this.debugLogger)]
+    );
+    this.outbound = new MiddlewarePipeline<OutboundContext>(
+      [],
+      [rateLimitMiddleware(this.rateLimiter), outboundLoggingMiddleware(this.debugLogger), outboundMetricsMiddleware(this.connectionMonitor)]
+    );
+    this.sendQueue = new SendQueue((op, data) => this.writePayload(op, data), options.sendQueue);
+    this.maxReconnectAttempts = options.reconnect?.maxAttempts ?? 5;
+    this.backoff = options.reconnect?.backoff ?? exponentialBackoff();
+    this.heartbeatScheduler = new TimerHeartbeatScheduler();
+
+    const intents = IdentifyOverrides?.intents ?? DEFAULT_IDENTITY.intents;
+    this.intents = intents === undefined ? null : new IntentsBitField(intents);
   }
 
   private createDefaultSessionStorage(): SessionStorage {
@@ -87,71 +293,206 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       return this.readyPromise;
     }
 
-    this.readyPromise = new Promise((resolve) => {
+    const ready = new Promise<void>((resolve, reject) => {
       this.readyResolve = resolve;
+      this.readyReject = reject;
     });
+    this.readyPromise = ready;
+
+    try {
+      await this.openSocket();
+    } catch (error) {
+      this.settleReady();
+      throw error;
+    }
+
+    return ready;
+  }
+
+  /**
+   * Settles a pending `connect()`, rejecting it when `error` is given.
+   */
+  private settleReady(error?: Error): void {
+    const resolve = this.readyResolve;
+    const reject = this.readyReject;
+    this.readyPromise = null;
+    this.readyResolve = null;
+    this.readyReject = null;
 
+    if (error) {
+      reject?.(error);
+    } else {
+      resolve?.();
+    }
+  }
+
+  private async openSocket(): Promise<void> {
     this.debugLogger.logStateChange('connecting');
     this.connectionMonitor.recordConnectAttempt();
 
     try {
-      const url = this.resumeGatewayUrl ?? this.gatewayUrl;
+      if (this.options.discovery && !this.gatewayDiscovered && !this.resumeGatewayUrl) {
+        await this.discoverGateway(this.options.discovery);
+      }
 
-      const session = await this.sessionStorage.load(this.token);
+      const session = await this.sessionStorage.load(this.sessionKey);
 
       this.isResuming = session !== null;
-      this.debugLogger.logInfo('Attempting connection', { url, isResuming: this.isResuming });
-
-      this.ws = new WebSocket(url);
+      this.userId = session?.userId ?? this.userId;
+      this.storedSession = session ?? this.storedSession;
+
+      // A fresh instance picks up the stored session so it resumes instead of identifying.
+      if (session && !this.sessionId) {
+        this.sessionId = session.sessionId;
+        this.sequence = session.sequence;
+        this.resumeGatewayUrl = session.resumeGatewayUrl;
+      }
 
-      this.ws.addEventListener('open', () => {
-        this.connected = false;
-        this.reconnectAttempts = 0;
-        this.connectionMonitor.recordConnectSuccess();
-        this.debugLogger.logStateChange('connected');
-      });
+      const url = this.buildGatewayUrl(this.resumeGatewayUrl ?? this.gatewayUrl);
+      this.debugLogger.logInfo('Attempting connection', { url, isResuming: this.isResuming });
 
-      this.ws.addEventListener('message', (event: MessageEvent) => {
-        try {
-          this.debugLogger.logIncoming(event.data, 'network');
-          const payload: GatewayPayload = JSON.parse(event.data.toString());
-          this.debugLogger.logIncoming(payload, 'application');
-          this.connectionMonitor.recordMessageReceived(event.data.length);
-          this.handleMessage(payload);
-        } catch (error) {
-          this.debugLogger.logError('Failed to parse message', error);
-          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      this.resetInflater();
+      const transport = this.createTransport();
+      this.transport = transport;
+
+      transport.connect(url, {
+        onOpen: () => {
+          this.connected = false;
+          this.connectionMonitor.recordConnectSuccess();
+          this.sendQueue.setState('open');
+          this.debugLogger.logStateChange('connected');
+        },
+        onMessage: (data) => {
+          if (transport !== this.transport) return;
+          this.handleRawMessage(transport, data);
+        },
+        onClose: (code, reason) => {
+          // Transports replaced by a reconnect or torn down by close() are already handled.
+          if (transport !== this.transport) return;
+          this.debugLogger.logInfo('WebSocket closed', { code, reason });
+          this.connectionMonitor.recordDisconnect();
+          this.handleClose(code, reason);
+        },
+        onError: (error) => {
+          this.connectionMonitor.recordConnectFailure();
+          this.debugLogger.logError('WebSocket error', error);
+          this.emit('error', error);
         }
       });
-
-      this.ws.addEventListener('close', (event: CloseEvent) => {
-        this.debugLogger.logInfo('WebSocket closed', { code: event.code, reason: event.reason });
-        this.connectionMonitor.recordDisconnect();
-        this.handleClose(event.code, event.reason);
-      });
-
-      this.ws.addEventListener('error', (event: Event) => {
-        this.connectionMonitor.recordConnectFailure();
-        this.debugLogger.logError('WebSocket error', event);
-        this.emit('error', new Error(`WebSocket error: ${event}`));
-      });
     } catch (error) {
       this.connectionMonitor.recordConnectFailure();
       this.debugLogger.logError('Connection failed', error);
       this.emit('error', error instanceof Error ? error : new Error(String(error)));
-      this.readyResolve?.();
-      this.readyPromise = null;
       throw error;
     }
+  }
 
-    return this.readyPromise;
+  /**
+   * Falls back to the default URL when discovery fails, identify budgets are
+   * then only enforced from what was persisted earlier.
+   */
+  private async discoverGateway(options: GatewayDiscoveryOptions): Promise<void> {
+    try {
+      const info = await fetchGatewayInfo(this.token, options);
+      this.gatewayUrl = info.url;
+      this.gatewayDiscovered = true;
+      if (info.sessionStartLimit) {
+        await this.identifyLimiter.update(info.sessionStartLimit);
+      }
+      this.debugLogger.logInfo('Gateway discovered', info);
+    } catch (error) {
+      this.debugLogger.logWarn('Gateway discovery failed, using default URL', { reason: String(error) });
+    }
   }
 
-  private async handleMessage(payload: GatewayPayload): Promise<void> {
-    if (payload.s !== null && payload.s !== undefined) {
-      this.sequence = payload.s;
+  private buildGatewayUrl(base: string): string {
+    const params = new URLSearchParams({ v: String(GATEWAY_VERSION), encoding: this.codec.encoding });
+    if (this.options.compression === 'zlib-stream') {
+      params.set('compress', 'zlib-stream');
     }
+    return `${base.replace(/\/?(\?.*)?$/, '')}/?${params}`;
+  }
+
+  private createTransport(): GatewayTransport {
+    return this.options.transport?.() ?? new WebSocketTransport(this.options.transportOptions);
+  }
+
+  private resetInflater(): void {
+    this.inflater?.destroy();
+    this.inflater = this.options.compression === 'zlib-stream' ? new ZlibStreamInflater() : null;
+  }
 
+  private handleRawMessage(transport: GatewayTransport, data: string | ArrayBuffer): void {
+    const inflater = this.inflater;
+    if (!inflater) {
+      this.parseMessage(typeof data === 'string' ? data : toUint8Array(data), data);
+      return;
+    }
+
+    inflater.push(toUint8Array(data))
+      .then((decoded) => {
+        if (decoded === null || transport !== this.transport) return;
+        this.parseMessage(decoded, data);
+      })
+      .catch((error) => {
+        if (transport !== this.transport) return;
+        this.debugLogger.logError('Failed to inflate message', error);
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        this.dropConnection(4000, 'Failed to inflate message');
+      });
+  }
+
+  private parseMessage(data: string | Uint8Array, raw: string | ArrayBuffer): void {
+    try {
+      this.debugLogger.logIncoming(
+        typeof data === 'string' ? data : { encoding: this.codec.encoding, byteLength: data.byteLength },
+        'network'
+      );
+      const payload = this.codec.decode(data);
+      this.options.recorder?.record('in', payload);
+      this.receivePayload(payload, typeof raw === 'string' ? raw.length : raw.byteLength);
+    } catch (error) {
+      this.debugLogger.logError('Failed to parse message', error);
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private receivePayload(payload: GatewayPayload, size: number): Promise<void> {
+    // Sequence and ACK bookkeeping follow arrival order: middleware may delay a
+    // payload, and a later one overtaking it must not look like a gap.
+    if (payload.op === OpCode.DISPATCH && typeof payload.s === 'number' && !this.trackSequence(payload.s, payload.t)) {
+      return Promise.resolve();
+    }
+    if (payload.op === OpCode.HEARTBEAT_ACK) {
+      this.handleHeartbeatAck();
+    }
+
+    const ctx: InboundContext = { payload, size, receivedAt: Date.now() };
+    return this.inbound.run(ctx, ({ payload }) => this.handleMessage(payload))
+      .then(() => undefined)
+      .catch((error) => {
+        this.debugLogger.logError('Inbound middleware failed', error);
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  /**
+   * Adds a middleware after the built-in ones. Inbound middlewares see each
+   * decoded payload before it is handled, outbound ones see each payload
+   * before it is queued for the socket.
+   */
+  use(direction: 'inbound', middleware: InboundMiddleware): this;
+  use(direction: 'outbound', middleware: OutboundMiddleware): this;
+  use(direction: MiddlewareDirection, middleware: InboundMiddleware | OutboundMiddleware): this {
+    if (direction === 'inbound') {
+      this.inbound.use(middleware as InboundMiddleware);
+    } else {
+      this.outbound.use(middleware as OutboundMiddleware);
+    }
+    return this;
+  }
+
+  private async handleMessage(payload: GatewayPayload): Promise<void> {
     switch (payload.op) {
       case OpCode.DISPATCH:
         this.handleDispatch(payload);
@@ -170,7 +511,7 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
         this.handleHello(payload.d as Heartbeat);
         break;
       case OpCode.HEARTBEAT_ACK:
-        this.handleHeartbeatAck();
+        // Recorded in receivePayload, as soon as it arrives.
         break;
       case OpCode.REQUEST_SOUNDBOARD_SOUNDS:
         this.debugLogger.logInfo('Received REQUEST_SOUNDBOARD_SOUNDS (unexpected for receive)');
@@ -181,6 +522,51 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
     }
   }
 
+  /**
+   * Returns false when the dispatch should be skipped: duplicates and
+   * replays at or below the current sequence, or the dispatch that revealed
+   * a gap large enough to force a re-identify.
+   */
+  private trackSequence(sequence: number, eventType: string | null | undefined): boolean {
+    // READY starts a new session, so its sequence is taken as-is.
+    if (eventType === 'READY' || this.sequence === 0) {
+      this.sequence = sequence;
+      return true;
+    }
+
+    if (sequence <= this.sequence) {
+      this.debugLogger.logDebug('Dropping duplicate dispatch', { event: eventType, sequence, current: this.sequence });
+      return false;
+    }
+
+    const missing = sequence - this.sequence - 1;
+    if (missing > 0) {
+      const reidentifying = !this.replaying && this.options.maxSequenceGap !== undefined && missing > this.options.maxSequenceGap;
+      const gap: SequenceGap = { from: this.sequence + 1, to: sequence - 1, missing, reidentifying };
+
+      this.debugLogger.logWarn('Sequence gap detected', gap);
+      this.emit('sequenceGap', gap);
+
+      if (reidentifying) {
+        this.invalidateSession();
+        this.dropConnection(4000, 'Sequence gap too large');
+        return false;
+      }
+    }
+
+    this.sequence = sequence;
+    this.persistSequence();
+    return true;
+  }
+
+  private persistSequence(): void {
+    if (this.replaying || !this.sessionId || !this.sessionStorage.updateSequence) return;
+
+    this.sessionStorage.updateSequence(this.sessionKey, this.sequence).catch((error) => {
+      this.debugLogger.logError('Failed to update session sequence', error);
+    });
+  }
+
   private async handleDispatch(payload: GatewayPayload): Promise<void> {
     if (!payload.t) return;
 
@@ -188,6 +574,8 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
 
     switch (eventType) {
       case 'READY':
+        // The session depends on READY, so it is never dropped even in strict mode.
+        this.validatePayload(eventType, ReadySchema, payload.d, false);
         await this.handleReady(payload.d as Ready);
         break;
 
@@ -195,60 +583,92 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
         await this.handleResumed();
         break;
 
-      case 'RATE_LIMITED':
-        this.handleRateLimited(payload.d as RateLimited);
+      case 'GUILD_MEMBERS_CHUNK':
+        if (!this.validatePayload(eventType, GuildMemberChunkSchema, payload.d)) break;
+        this.emit('guildMemberChunk', payload.d as GuildMemberChunk);
+        this.collectMemberChunk(payload.d as GuildMemberChunk);
         break;
 
-      case 'CHANNEL_PINS_UPDATE':
-        this.emit('channelPinsUpdate', payload.d as ChannelPinsUpdate);
+      case 'VOICE_STATE_UPDATE':
+        if (!this.validatePayload(eventType, VoiceStateSchema, payload.d)) break;
+        this.emit('voiceStateUpdate', payload.d as VoiceState);
+        this.collectVoiceState(payload.d as VoiceState);
         break;
 
-      case 'TYPING_START':
-        this.emit('typingStart', payload.d as TypingStart);
+      case 'VOICE_SERVER_UPDATE':
+        if (!this.validatePayload(eventType, VoiceServerUpdateSchema, payload.d)) break;
+        this.emit('voiceServerUpdate', payload.d as VoiceServerUpdate);
+        this.collectVoiceServer(payload.d as VoiceServerUpdate);
         break;
 
-      case 'VOICE_CHANNEL_EFFECT_SEND':
-        this.emit('voiceChannelEffectSend', payload.d as VoiceChannelEffectSend);
+      case 'RATE_LIMITED':
+        if (!this.validatePayload(eventType, RateLimitedSchema, payload.d)) break;
+        this.handleRateLimited(payload.d as RateLimited);
         break;
 
-      case 'WEBHOOKS_UPDATE':
-        this.emit('webhooksUpdate', payload.d as WebhooksUpdate);
-        break;
+      default: {
+        const entry = getDispatchEntry(eventType);
+        if (entry) {
+          if (this.validatePayload(eventType, entry.schema, payload.d)) {
+            this.emit(entry.event, payload.d as never);
+          }
+          break;
+        }
 
-      case 'MESSAGE_POLL_VOTE_ADD':
-        this.emit('messagePollVoteAdd', payload.d as MessagePollVoteAdd);
+        this.debugLogger.logDebug(`Unhandled event type: ${eventType}`);
+        this.emit('dispatch', { t: eventType, d: payload.d, s: payload.s ?? null });
         break;
+      }
+    }
+  }
 
-      case 'MESSAGE_POLL_VOTE_REMOVE':
-        this.emit('messagePollVoteRemove', payload.d as MessagePollVoteRemove);
-        break;
+  /**
+   * Returns false when the payload should be dropped.
+   */
+  private validatePayload(eventType: string, schema: z.ZodType, data: unknown, droppable = true): boolean {
+    const mode = this.options.validation ?? 'off';
+    if (mode === 'off') return true;
 
-      case 'GUILD_MEMBERS_CHUNK':
-        this.emit('guildMemberChunk', payload.d);
-        break;
+    const result = schema.safeParse(data);
+    if (result.success) return true;
 
-      case 'CHANNEL_CREATE':
-        this.emit('channelCreate', payload.d as Channel);
-        break;
+    const issues = result.error.issues;
+    const dropped = mode === 'strict' && droppable;
 
-      case 'CHANNEL_UPDATE':
-        this.emit('channelUpdate', payload.d as Channel);
-        break;
+    this.debugLogger.logWarn(`Schema mismatch for ${eventType}`, {
+      dropped,
+      issues: issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    });
 
-      case 'CHANNEL_DELETE':
-        this.emit('channelDelete', payload.d as Channel);
-        break;
+    this.emit('schemaMismatch', {
+      event: eventType,
+      mode,
+      paths: issues.map(issue => issue.path.join('.')),
+      issues,
+      dropped
+    });
 
-      default:
-        this.debugLogger.logDebug(`Unhandled event type: ${eventType}`);
-        break;
-    }
+    return !dropped;
   }
 
   private async handleReady(ready: Ready): Promise<void> {
+    // The token may have been moved to another account since the session was stored.
+    const stored = this.storedSession;
+    if (stored && checkSession(stored, { userId: ready.user.id }) === 'user-mismatch') {
+      this.debugLogger.logWarn('Stored session belongs to another user, discarding it', {
+        storedUserId: stored.userId,
+        userId: ready.user.id
+      });
+      this.isResuming = false;
+      this.storedSession = null;
+      if (!this.replaying) {
+        await this.sessionStorage.delete(this.sessionKey);
+      }
+    }
+
     this.sessionId = ready.session_id;
-    this.resumeGatewayUrl = `${ready.resume_gateway_url}/?v=10&encoding=json`;
-    this.connected = true;
+    this.userId = ready.user.id;
+    this.resumeGatewayUrl = ready.resume_gateway_url;
     this.sessionRestored = this.isResuming;
 
     this.debugLogger.logInfo('Ready received', {
@@ -256,6 +676,14 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       sessionRestored: this.sessionRestored
     });
 
+    if (this.replaying) {
+      this.emit('ready', ready);
+      this.emit('sessionRestored', this.sessionRestored);
+      return;
+    }
+
+    this.connected = true;
+
     const sessionData: SessionData = {
       token: this.token,
       sessionId: this.sessionId,
@@ -265,58 +693,66 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       userId: ready.user.id
     };
 
-    await this.sessionStorage.save(this.token, sessionData);
+    await this.sessionStorage.save(this.sessionKey, sessionData);
+    this.storedSession = sessionData;
 
+    this.reconnectAttempts = 0;
+    this.sendQueue.setState('ready');
     this.emit("ready", ready);
     this.emit('sessionRestored', this.sessionRestored);
-    this.readyResolve?.();
-    this.readyPromise = null;
+    this.settleReady();
   }
 
   private async handleResumed(): Promise<void> {
-    this.connected = true;
     this.sessionRestored = true;
     this.debugLogger.logInfo('Session resumed');
 
-    const session = await this.sessionStorage.load(this.token);
+    if (this.replaying) {
+      this.emit('resumed', void 0);
+      this.emit('sessionRestored', true);
+      return;
+    }
+
+    this.connected = true;
+    const session = await this.sessionStorage.load(this.sessionKey);
     if (session) {
       session.sequence = this.sequence;
-      await this.sessionStorage.save(this.token, session);
+      session.timestamp = Date.now();
+      await this.sessionStorage.save(this.sessionKey, session);
     }
 
+    this.reconnectAttempts = 0;
+    this.sendQueue.setState('ready');
     this.emit('resumed', void 0);
     this.emit('sessionRestored', true);
-    this.readyResolve?.();
-    this.readyPromise = null;
+    this.settleReady();
   }
 
   private handleHello(data: Heartbeat): void {
     this.heartbeatInterval = data.heartbeat_interval;
+    this.sendQueue.setHeartbeatInterval(this.heartbeatInterval);
     this.debugLogger.logInfo('Hello received', { heartbeatInterval: this.heartbeatInterval });
     this.startHeartbeat();
 
-    const attemptResume = async (): Promise<void> => {
-      if (this.sequence > 0 && this.sessionId) {
-        this.debugLogger.logInfo('Attempting to resume session', {
-          sessionId: this.sessionId,
-          sequence: this.sequence
-        });
-        await this.sendResume();
-      } else {
-        this.debugLogger.logInfo('No session to resume, sending identify');
-        await this.sendIdentify();
-      }
-    };
-
-    attemptResume().catch((error) => {
-      this.debugLogger.logError('Failed to send identify/resume', error);
-      this.emit('error', error);
-    });
+    if (this.sequence > 0 && this.sessionId) {
+      this.debugLogger.logInfo('Attempting to resume session', {
+        sessionId: this.sessionId,
+        sequence: this.sequence
+      });
+      this.sendResume().catch((error) => {
+        this.debugLogger.logError('Failed to send resume', error);
+        this.emit('error', error);
+      });
+    } else {
+      this.debugLogger.logInfo('No session to resume, sending identify');
+      this.sendIdentify().catch((error) => this.abortIdentify(error));
+    }
   }
 
   private async handleInvalidSession(canResume: boolean): Promise<void> {
+    // The socket stays open after INVALID_SESSION, so heartbeats keep running.
     this.debugLogger.logWarn('Invalid session', { canResume });
-    this.stopHeartbeat();
+    this.sendQueue.setState('open');
 
     if (canResume) {
       this.debugLogger.logInfo('Session may be resumable, attempting resume');
@@ -325,7 +761,7 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
           await this.sendResume();
         } catch (error) {
           this.debugLogger.logError('Resume failed, trying identify', error);
-          await this.sendIdentify();
+          await this.sendIdentify().catch((identifyError) => this.abortIdentify(identifyError));
         }
       }, 150);
     } else {
@@ -333,10 +769,10 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       this.sessionId = null;
       this.resumeGatewayUrl = null;
       this.sequence = 0;
-      await this.sessionStorage.delete(this.token);
+      await this.sessionStorage.delete(this.sessionKey);
 
-      setTimeout(async () => {
-        await this.sendIdentify();
+      setTimeout(() => {
+        this.sendIdentify().catch((error) => this.abortIdentify(error));
       }, 150);
     }
   }
@@ -350,6 +786,14 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
 
     this.rateLimiter.trackRateLimit(data.opcode, data);
 
+    const nonce = data.meta?.nonce;
+    if (nonce && this.pendingMemberRequests.has(nonce)) {
+      this.settleMemberRequest(
+        nonce,
+        new Error(`Guild member request rate limited, retry after ${data.retry_after}s`)
+      );
+    }
+
     this.emit('rateLimited', {
       opcode: data.opcode,
       retryAfter: data.retry_after,
@@ -367,60 +811,168 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       this.startHeartbeatTimestamp = 0;
     }
 
-    if (this.heartbeatAckTimeout) {
-      clearTimeout(this.heartbeatAckTimeout);
-      this.heartbeatAckTimeout = null;
-    }
-
     this.emit('heartbeatAck', void 0);
   }
 
-  private async handleHeartbeatTimeout(): Promise<void> {
+  /**
+   * No ACK arrived since the previous beat, so the connection is treated as a
+   * zombie. The socket is dropped without waiting for a close handshake that
+   * may never come, and the session is resumed on a fresh connection.
+   */
+  private handleZombieConnection(): void {
     this.connectionMonitor.recordHeartbeatFailure();
-    this.debugLogger.logError('Heartbeat timeout, closing connection');
+    this.debugLogger.logError('Heartbeat ACK not received, reconnecting');
     this.emit('error', new Error('Heartbeat timeout'));
-    this.close();
+
+    this.dropConnection(4000, 'Heartbeat ACK not received');
+  }
+
+  /**
+   * Detaches the socket immediately and runs close handling, ignoring any
+   * frames or close event the old socket still produces.
+   */
+  private dropConnection(code: number, reason: string): void {
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close(code, reason);
+    this.connectionMonitor.recordDisconnect();
+    this.handleClose(code, reason);
   }
 
   private startHeartbeatTimestamp: number = 0;
 
   private reconnectWebSocket(): void {
     this.debugLogger.logInfo('Initiating reconnect');
-    this.ws?.close(4000, 'Attempting to reconnect');
+    this.transport?.close(4000, 'Attempting to reconnect');
   }
 
   private handleClose(code: number, reason: string): void {
     this.stopHeartbeat();
+    this.inflater?.destroy();
+    this.inflater = null;
+    this.sendQueue.setState('closed');
     this.connected = false;
     this.debugLogger.logStateChange('disconnected');
     this.emit('disconnected', { code, reason });
 
-    if (code === 4000 && this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(200 * Math.pow(2, this.reconnectAttempts), 5000);
-      this.debugLogger.logInfo(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    const { action, description } = classifyCloseCode(code);
+
+    if (action === 'fatal') {
+      const intentProblem = this.intents ? describeIntentClose(code, this.intents) : null;
+      this.stopReconnecting({
+        code,
+        reason,
+        description: intentProblem ? `${description}: ${intentProblem}` : description,
+        attempts: this.reconnectAttempts,
+        exhausted: false,
+        ...(code === 4014 && this.intents ? { intents: this.intents.privileged() } : {})
+      });
+      return;
+    }
 
-      setTimeout(() => {
-        this.connect().catch((error) => {
-          this.debugLogger.logError('Reconnect failed', error);
-          this.emit('error', error);
-        });
-      }, delay);
-    } else {
-      this.readyResolve?.();
-      this.readyPromise = null;
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.stopReconnecting({ code, reason, description, attempts: this.reconnectAttempts, exhausted: true });
+      return;
     }
+
+    if (action === 'reidentify') {
+      this.invalidateSession();
+    }
+
+    this.scheduleReconnect(code, action);
+  }
+
+  private async saveSessionSequence(): Promise<void> {
+    if (!this.sessionId || !this.resumeGatewayUrl) return;
+
+    await this.sessionStorage.save(this.sessionKey, {
+      token: this.token,
+      sessionId: this.sessionId,
+      sequence: this.sequence,
+      resumeGatewayUrl: this.resumeGatewayUrl,
+      timestamp: Date.now(),
+      userId: this.userId ?? undefined
+    });
+  }
+
+  private scheduleReconnect(code: number, action: 'resume' | 'reidentify'): void {
+    this.reconnectAttempts++;
+    const delay = this.backoff(this.reconnectAttempts);
+    this.debugLogger.logInfo(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`, { code, action });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket().catch((error) => {
+        this.debugLogger.logError('Reconnect failed', error);
+        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+          this.stopReconnecting({
+            code,
+            reason: String(error),
+            description: classifyCloseCode(code).description,
+            attempts: this.reconnectAttempts,
+            exhausted: true
+          });
+          return;
+        }
+        this.scheduleReconnect(code, action);
+      });
+    }, delay);
+  }
+
+  private invalidateSession(): void {
+    this.sessionId = null;
+    this.resumeGatewayUrl = null;
+    this.sequence = 0;
+    this.sessionStorage.delete(this.sessionKey).catch((error) => {
+      this.debugLogger.logError('Failed to clear session', error);
+    });
+  }
+
+  private stopReconnecting(fatal: FatalClose): void {
+    this.debugLogger.logError('Not reconnecting', fatal);
+    this.emit('fatalClose', fatal);
+    const message = fatal.exhausted
+      ? `Gave up reconnecting after ${fatal.attempts} attempts (last close ${fatal.code}: ${fatal.description})`
+      : `Gateway closed with ${fatal.code}: ${fatal.description}`;
+    this.settleReady(new Error(message, { cause: fatal }));
+  }
+
+  /**
+   * An identify that cannot be sent (budget refused, `beforeIdentify` threw)
+   * leaves nothing to wait for, so the socket is closed without reconnecting
+   * and a pending `connect()` is rejected.
+   */
+  private abortIdentify(cause: unknown): void {
+    const error = cause instanceof Error ? cause : new Error(String(cause));
+    this.debugLogger.logError('Failed to send identify, closing connection', error);
+
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close(1000, 'Identify not sent');
+    this.stopHeartbeat();
+    this.inflater?.destroy();
+    this.inflater = null;
+    this.sendQueue.setState('closed');
+    this.connected = false;
+    this.connectionMonitor.recordDisconnect();
+    this.debugLogger.logStateChange('disconnected');
+    this.emit('disconnected', { code: 1000, reason: 'Identify not sent' });
+    this.emit('error', error);
+    this.settleReady(error);
   }
 
   private async sendIdentify(): Promise<void> {
+    await this.options.beforeIdentify?.();
+    await this.identifyLimiter.acquire();
+
     const identify: Identify = {
       ...DEFAULT_IDENTITY,
       ...this.IdentifyOverrides,
+      ...(this.identifyPresence ? { presence: this.identifyPresence } : {}),
       token: this.token
     };
 
-    this.debugLogger.logOutgoing(OpCode.IDENTIFY, identify, 'application');
-    this.send(OpCode.IDENTIFY, identify);
+    this.sendInternal(OpCode.IDENTIFY, identify);
   }
 
   private async sendResume(): Promise<void> {
@@ -430,56 +982,80 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       seq: this.sequence
     };
 
-    this.debugLogger.logOutgoing(OpCode.RESUME, resume, 'application');
-    this.send(OpCode.RESUME, resume);
+    this.sendInternal(OpCode.RESUME, resume);
   }
 
   private sendHeartbeat(): void {
     const data = this.sequence === 0 ? null : this.sequence;
     this.startHeartbeatTimestamp = Date.now();
-    this.debugLogger.logOutgoing(OpCode.HEARTBEAT, data, 'application');
-    this.send(OpCode.HEARTBEAT, data);
+    this.sendInternal(OpCode.HEARTBEAT, data);
   }
 
+  /**
+   * The first beat is sent after `heartbeat_interval * jitter` as the gateway
+   * requires, the rest every `heartbeat_interval`.
+   */
   private startHeartbeat(): void {
     this.stopHeartbeat();
-    this.heartbeatAckReceived = false;
+    this.heartbeatAckReceived = true;
+    this.lastBeatAt = 0;
 
-    this.heartbeatTimer = setInterval(() => {
-      this.sendHeartbeat();
+    const jitter = Math.random();
+    this.heartbeatScheduler.start(this.heartbeatInterval, this.heartbeatInterval * jitter, () => this.beat());
+  }
+
+  private beat(): void {
+    // Beats that piled up while the event loop was blocked collapse into one.
+    const now = Date.now();
+    if (now - this.lastBeatAt < this.heartbeatInterval / 2) return;
+    this.lastBeatAt = now;
 
+    if (this.heartbeatAckReceived) {
       this.heartbeatAckReceived = false;
-      this.heartbeatAckTimeout = setTimeout(async () => {
-        if (!this.heartbeatAckReceived) {
-          await this.handleHeartbeatTimeout();
-        }
-      }, this.heartbeatInterval);
-    }, this.heartbeatInterval);
+      this.sendHeartbeat();
+      return;
+    }
+
+    // Let already-received frames run first, in case a blocked event loop is holding the ACK.
+    const transport = this.transport;
+    setImmediate(() => {
+      if (transport !== this.transport) return;
+      if (this.heartbeatAckReceived) {
+        this.heartbeatAckReceived = false;
+        this.sendHeartbeat();
+      } else {
+        this.handleZombieConnection();
+      }
+    });
   }
 
   private stopHeartbeat(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = null;
-    }
-    if (this.heartbeatAckTimeout) {
-      clearTimeout(this.heartbeatAckTimeout);
-      this.heartbeatAckTimeout = null;
-    }
+    this.heartbeatScheduler.stop();
   }
 
-  sendActivity(presence: Presence): void {
-    this.debugLogger.logOutgoing(OpCode.PRESENCE_UPDATE, presence, 'application');
-    this.send(OpCode.PRESENCE_UPDATE, presence);
+  /**
+   * Resolves once the presence has actually been written to the socket.
+   */
+  sendActivity(presence: Presence): Promise<void> {
+    return this.send(OpCode.PRESENCE_UPDATE, presence);
   }
 
-  async requestGuildMembers(guildId: string, options?: {
-    query?: string;
-    limit?: number;
-    presences?: boolean;
-    userIds?: string | string[];
-    nonce?: string;
-  }): Promise<void> {
+  /**
+   * Presence sent inside IDENTIFY, so a new session starts out with it instead
+   * of briefly showing none. `null` falls back to the identify overrides.
+   */
+  setIdentifyPresence(presence: Presence | null): void {
+    this.identifyPresence = presence;
+  }
+
+  /**
+   * Milliseconds until `op` may be sent without waiting on a cooldown or its send budget.
+   */
+  getRateLimitWait(op: OpCode): number {
+    return this.rateLimiter.getWaitTime(op);
+  }
+
+  async requestGuildMembers(guildId: string, options?: RequestGuildMembersOptions): Promise<void> {
     const data = {
       guild_id: guildId,
       query: options?.query ?? '',
@@ -489,51 +1065,249 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
       nonce: options?.nonce
     };
 
-    await this.rateLimiter.waitForAvailability(OpCode.REQUEST_GUILD_MEMBERS);
-    this.debugLogger.logOutgoing(OpCode.REQUEST_GUILD_MEMBERS, data, 'application');
-    this.send(OpCode.REQUEST_GUILD_MEMBERS, data);
+    await this.send(OpCode.REQUEST_GUILD_MEMBERS, data);
   }
 
-  async requestSoundboardSounds(guildIds: string[]): Promise<void> {
-    const data = { guild_ids: guildIds };
+  /**
+   * Requests guild members and resolves once every chunk for the generated
+   * nonce has arrived. Rejects on timeout or a RATE_LIMITED for the nonce.
+   */
+  fetchGuildMembers(guildId: string, options: FetchGuildMembersOptions = {}): Promise<FetchedGuildMembers> {
+    const { timeout = DEFAULT_MEMBER_REQUEST_TIMEOUT, ...request } = options;
+    const nonce = randomUUID().replace(/-/g, '');
+
+    return new Promise((resolve, reject) => {
+      this.pendingMemberRequests.set(nonce, {
+        result: { guildId, members: [], presences: [], notFound: [] },
+        timeout,
+        timer: this.createMemberRequestTimer(nonce, timeout),
+        resolve,
+        reject
+      });
 
-    await this.rateLimiter.waitForAvailability(OpCode.REQUEST_SOUNDBOARD_SOUNDS);
-    this.debugLogger.logOutgoing(OpCode.REQUEST_SOUNDBOARD_SOUNDS, data, 'application');
-    this.send(OpCode.REQUEST_SOUNDBOARD_SOUNDS, data);
-  }
-
-  private send(op: OpCode, data: unknown): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const payload = {
-        op,
-        d: data
-      };
-      const json = JSON.stringify(payload);
-      this.debugLogger.logOutgoing(op, data, 'websocket');
-
-      try {
-        this.ws.send(json);
-        this.debugLogger.logOutgoing(op, data, 'network');
-      } catch (error) {
-        this.debugLogger.logError('Failed to send message', error);
-        this.emit('error', error instanceof Error ? error : new Error(String(error)));
-      }
+      this.requestGuildMembers(guildId, { ...request, nonce }).catch((error) => {
+        this.settleMemberRequest(nonce, error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  private createMemberRequestTimer(nonce: string, timeout: number): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      this.settleMemberRequest(nonce, new Error(`Guild member request ${nonce} timed out`));
+    }, timeout);
+  }
+
+  private collectMemberChunk(chunk: GuildMemberChunk): void {
+    if (!chunk.nonce) return;
+
+    const pending = this.pendingMemberRequests.get(chunk.nonce);
+    if (!pending) return;
+
+    pending.result.members.push(...chunk.members);
+    pending.result.presences.push(...(chunk.presences ?? []));
+    pending.result.notFound.push(...(chunk.not_found ?? []));
+
+    if (chunk.chunk_index === chunk.chunk_count - 1) {
+      this.settleMemberRequest(chunk.nonce);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    pending.timer = this.createMemberRequestTimer(chunk.nonce, pending.timeout);
+  }
+
+  private settleMemberRequest(nonce: string, error?: Error): void {
+    const pending = this.pendingMemberRequests.get(nonce);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingMemberRequests.delete(nonce);
+
+    if (error) {
+      pending.reject(error);
     } else {
-      this.debugLogger.logError('WebSocket not ready', {
-        readyState: this.ws?.readyState,
-        op
+      pending.resolve(pending.result);
+    }
+  }
+
+  /**
+   * Sends a voice state update and resolves once both VOICE_STATE_UPDATE and
+   * VOICE_SERVER_UPDATE arrived, which is what a voice connection needs.
+   */
+  joinVoiceChannel(
+    guildId: string,
+    channelId: string,
+    options: JoinVoiceChannelOptions = {}
+  ): Promise<VoiceConnectionInfo> {
+    const { selfMute = false, selfDeaf = false, timeout = DEFAULT_VOICE_JOIN_TIMEOUT } = options;
+
+    this.settleVoiceJoin(guildId, new Error('Superseded by a newer voice join'));
+
+    return new Promise((resolve, reject) => {
+      this.pendingVoiceJoins.set(guildId, {
+        channelId,
+        sessionId: null,
+        server: null,
+        timer: setTimeout(() => {
+          this.settleVoiceJoin(guildId, new Error(`Joining voice channel ${channelId} timed out`));
+        }, timeout),
+        resolve,
+        reject
       });
+
+      this.sendVoiceStateUpdate({
+        guild_id: guildId,
+        channel_id: channelId,
+        self_mute: selfMute,
+        self_deaf: selfDeaf
+      }).catch((error) => {
+        this.settleVoiceJoin(guildId, error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  leaveVoiceChannel(guildId: string): Promise<void> {
+    this.settleVoiceJoin(guildId, new Error('Left voice channel'));
+    return this.sendVoiceStateUpdate({
+      guild_id: guildId,
+      channel_id: null,
+      self_mute: false,
+      self_deaf: false
+    });
+  }
+
+  private sendVoiceStateUpdate(data: VoiceStateUpdate): Promise<void> {
+    return this.send(OpCode.VOICE_STATE, data);
+  }
+
+  private collectVoiceState(state: VoiceState): void {
+    if (!state.guild_id || state.user_id !== this.userId) return;
+
+    const pending = this.pendingVoiceJoins.get(state.guild_id);
+    if (!pending || state.channel_id !== pending.channelId) return;
+
+    pending.sessionId = state.session_id;
+    this.completeVoiceJoin(state.guild_id, pending);
+  }
+
+  private collectVoiceServer(server: VoiceServerUpdate): void {
+    const pending = this.pendingVoiceJoins.get(server.guild_id);
+    // A null endpoint means the voice server is unavailable; Discord sends another update later.
+    if (!pending || server.endpoint === null) return;
+
+    pending.server = { token: server.token, endpoint: server.endpoint };
+    this.completeVoiceJoin(server.guild_id, pending);
+  }
+
+  private completeVoiceJoin(guildId: string, pending: PendingVoiceJoin): void {
+    if (!pending.sessionId || !pending.server || !this.userId) return;
+
+    clearTimeout(pending.timer);
+    this.pendingVoiceJoins.delete(guildId);
+    pending.resolve({
+      guildId,
+      channelId: pending.channelId,
+      userId: this.userId,
+      sessionId: pending.sessionId,
+      token: pending.server.token,
+      endpoint: pending.server.endpoint
+    });
+  }
+
+  private settleVoiceJoin(guildId: string, error: Error): void {
+    const pending = this.pendingVoiceJoins.get(guildId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingVoiceJoins.delete(guildId);
+    pending.reject(error);
+  }
+
+  async requestSoundboardSounds(guildIds: string[]): Promise<void> {
+    const data = { guild_ids: guildIds };
+
+    await this.send(OpCode.REQUEST_SOUNDBOARD_SOUNDS, data);
+  }
+
+  /**
+   * Queues a payload. It is held while disconnected or identifying/resuming
+   * and the promise resolves once it has been written to the socket, or
+   * rejects when outbound middleware dropped it.
+   */
+  private async send(op: OpCode, data: unknown): Promise<void> {
+    const ctx: OutboundContext = { payload: { op, d: data } };
+    const sent = await this.outbound.run(ctx, async ({ payload }) => {
+      ctx.bytes = await this.sendQueue.enqueue(payload.op, payload.d);
+    });
+    if (!sent) {
+      throw new Error(`Payload for op ${op} was dropped by outbound middleware`);
+    }
+  }
+
+  private sendInternal(op: OpCode, data: unknown): void {
+    this.send(op, data).catch((error) => {
+      this.debugLogger.logWarn('Outgoing payload dropped', { op, reason: String(error) });
+    });
+  }
+
+  private writePayload(op: OpCode, data: unknown): number {
+    if (!this.transport?.isOpen()) {
+      this.debugLogger.logError('WebSocket not ready', { op });
+      throw new Error('WebSocket not ready');
+    }
+
+    const payload = {
+      op,
+      d: data
+    };
+    this.debugLogger.logOutgoing(op, data, 'websocket');
+
+    try {
+      const encoded = this.codec.encode(payload);
+      this.transport.send(encoded);
+      this.options.recorder?.record('out', payload);
+      this.debugLogger.logOutgoing(op, data, 'network');
+      return typeof encoded === 'string' ? encoded.length : encoded.byteLength;
+    } catch (error) {
+      this.debugLogger.logError('Failed to send message', error);
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      throw error;
     }
   }
 
+  /**
+   * Runs a decoded payload through the same handlers as one received from
+   * the socket. Used by `SessionReplayer`. Replayed payloads update this
+   * client's state and events only: nothing is written to session storage,
+   * a replayed READY neither marks the client ready nor flushes queued sends,
+   * and a sequence gap never drops the connection.
+   */
+  async replayPayload(payload: GatewayPayload): Promise<void> {
+    this.replaying = true;
+    try {
+      await this.receivePayload(payload, 0);
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  getQueuedPayloadCount(): number {
+    return this.sendQueue.size();
+  }
+
   isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+    return this.transport?.isOpen() ?? false;
   }
 
   isReady(): boolean {
     return this.connected;
   }
 
+  /** True while `replayPayload` is feeding a recorded payload through the handlers. */
+  isReplaying(): boolean {
+    return this.replaying;
+  }
+
   getSessionInfo(): { sessionId: string | null; sequence: number; restored: boolean } | null {
     if (!this.sessionId) return null;
 
@@ -545,11 +1319,11 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
   }
 
   async hasStoredSession(): Promise<boolean> {
-    return await this.sessionStorage.hasSession(this.token);
+    return await this.sessionStorage.hasSession(this.sessionKey);
   }
 
   async clearSession(): Promise<void> {
-    await this.sessionStorage.delete(this.token);
+    await this.sessionStorage.delete(this.sessionKey);
     this.sessionId = null;
     this.resumeGatewayUrl = null;
     this.sequence = 0;
@@ -568,21 +1342,93 @@ export class DiscordWebSocket extends EventEmitter<DiscordGatewayEvents> {
     return this.connectionMonitor.getUptime();
   }
 
-  close(): void {
-    this.debugLogger.logInfo('Closing connection');
+  /**
+   * Whether the configured intents can deliver an event. Always true when
+   * IDENTIFY carries no intents, as user accounts receive every event.
+   */
+  canReceive(event: string): boolean {
+    return this.intents?.canReceive(event) ?? true;
+  }
+
+  /**
+   * Logs a warning, once per event, when subscribing to something the intents will never deliver.
+   */
+  warnIfUndeliverable(event: string): void {
+    if (this.canReceive(event) || this.warnedEvents.has(event)) return;
+    this.warnedEvents.add(event);
+
+    const required = EVENT_INTENTS[event as keyof typeof EVENT_INTENTS] ?? [];
+    this.debugLogger.logWarn(`Listening for ${event}, but the configured intents cannot deliver it`, {
+      event,
+      requiresOneOf: required,
+      intents: this.intents?.toArray() ?? []
+    });
+  }
+
+  getIdentifyBudget(): Promise<IdentifyBudget | null> {
+    return this.identifyLimiter.get();
+  }
+
+  getIntents(): IntentName[] | null {
+    return this.intents?.toArray() ?? null;
+  }
+
+  override on<K extends keyof DiscordGatewayEvents>(event: K, callback: (data: DiscordGatewayEvents[K]) => void): void {
+    this.warnIfUndeliverable(String(event));
+    super.on(event, callback);
+  }
+
+  /**
+   * Closes the connection and rejects a `connect()` still waiting for READY.
+   * By default this ends the session, deletes it from session storage and
+   * removes all listeners. With `resumable` the socket is closed with a non-1000 code so
+   * Discord keeps the session, the latest sequence is saved, and listeners and
+   * session state are kept so a later `connect()` (or a new process sharing
+   * the session storage) resumes it.
+   */
+  async close(options: CloseOptions = {}): Promise<void> {
+    this.debugLogger.logInfo('Closing connection', { resumable: options.resumable ?? false });
     this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     this.rateLimiter.clear();
+    this.pendingMemberRequests.forEach((_, nonce) => {
+      this.settleMemberRequest(nonce, new Error('Connection closed'));
+    });
+    this.pendingVoiceJoins.forEach((_, guildId) => {
+      this.settleVoiceJoin(guildId, new Error('Connection closed'));
+    });
+    this.sendQueue.clear(new Error('Connection closed'));
     this.connectionMonitor.recordDisconnect();
-    this.ws?.close();
-    this.ws = null;
+    this.inflater?.destroy();
+    this.inflater = null;
     this.connected = false;
+
+    // Detached first: some WebSocket implementations fire `close` synchronously,
+    // which would otherwise be handled as a drop and schedule a reconnect.
+    const transport = this.transport;
+    this.transport = null;
+
+    this.settleReady(new Error('Connection closed before ready'));
+
+    if (options.resumable) {
+      transport?.close(4000, 'Closing with a resumable session');
+      this.reconnectAttempts = 0;
+      await this.saveSessionSequence();
+      return;
+    }
+
+    // Code 1000 ends the session on Discord's side, so the stored copy could only fail a RESUME.
+    transport?.close();
+    await this.sessionStorage.delete(this.sessionKey);
+    this.storedSession = null;
     this.sessionId = null;
     this.resumeGatewayUrl = null;
     this.sequence = 0;
     this.sessionRestored = false;
     this.removeAllListeners();
-    this.readyPromise = null;
-    this.readyResolve = null;
     this.reconnectAttempts = 0;
     this.isResuming = false;
   }
@@ -0,0 +1,159 @@
+import { OpCode } from './opcodes';
+
+export enum SendPriority {
+  HEARTBEAT = 0,
+  SESSION = 1,
+  PRESENCE = 2,
+  MEMBER_REQUEST = 3
+}
+
+export type SendQueueState = 'closed' | 'open' | 'ready';
+
+export interface SendQueueOptions {
+  /** Gateway send limit per window. Discord allows 120 events per 60 seconds. */
+  limit?: number;
+  window?: number;
+}
+
+interface QueuedPayload {
+  op: OpCode;
+  data: unknown;
+  priority: SendPriority;
+  resolve: (bytes: number) => void;
+  reject: (error: Error) => void;
+}
+
+export function priorityForOpCode(op: OpCode): SendPriority {
+  switch (op) {
+    case OpCode.HEARTBEAT:
+      return SendPriority.HEARTBEAT;
+    case OpCode.IDENTIFY:
+    case OpCode.RESUME:
+      return SendPriority.SESSION;
+    case OpCode.PRESENCE_UPDATE:
+    case OpCode.VOICE_STATE:
+      return SendPriority.PRESENCE;
+    default:
+      return SendPriority.MEMBER_REQUEST;
+  }
+}
+
+/**
+ * Outbound queue in front of the socket. Payloads are held while the client
+ * is disconnected or still identifying/resuming, flushed by priority, and
+ * kept under the gateway send limit with headroom reserved for heartbeats.
+ */
+export class SendQueue {
+  private queue: QueuedPayload[] = [];
+  private sentAt: number[] = [];
+  private state: SendQueueState = 'closed';
+  private heartbeatReserve = 3;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private limit: number;
+  private window: number;
+
+  constructor(
+    /** Writes the payload to the socket and returns its encoded size. */
+    private write: (op: OpCode, data: unknown) => number,
+    options: SendQueueOptions = {}
+  ) {
+    this.limit = options.limit ?? 120;
+    this.window = options.window ?? 60_000;
+  }
+
+  /**
+   * Resolves with the encoded size once the payload has been written.
+   */
+  enqueue(op: OpCode, data: unknown): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const item: QueuedPayload = { op, data, priority: priorityForOpCode(op), resolve, reject };
+      const index = this.queue.findIndex(queued => queued.priority > item.priority);
+      if (index === -1) {
+        this.queue.push(item);
+      } else {
+        this.queue.splice(index, 0, item);
+      }
+      this.flush();
+    });
+  }
+
+  setState(state: SendQueueState): void {
+    this.state = state;
+
+    if (state === 'closed') {
+      // Heartbeats, identifies and resumes belong to the connection they were queued for.
+      this.sentAt = [];
+      this.dropWhere(item => item.priority <= SendPriority.SESSION, new Error('Connection closed before payload was sent'));
+      return;
+    }
+
+    this.flush();
+  }
+
+  setHeartbeatInterval(interval: number): void {
+    // Capped so very short intervals cannot starve every other payload.
+    this.heartbeatReserve = Math.min(Math.ceil(this.window / interval) + 1, Math.floor(this.limit / 2));
+  }
+
+  size(): number {
+    return this.queue.length;
+  }
+
+  clear(error = new Error('Send queue cleared')): void {
+    this.dropWhere(() => true, error);
+    this.sentAt = [];
+    this.state = 'closed';
+  }
+
+  private dropWhere(predicate: (item: QueuedPayload) => boolean, error: Error): void {
+    const dropped = this.queue.filter(predicate);
+    this.queue = this.queue.filter(item => !predicate(item));
+    dropped.forEach(item => item.reject(error));
+
+    if (this.queue.length === 0 && this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private canSend(item: QueuedPayload): boolean {
+    if (this.state === 'closed') return false;
+    if (this.state === 'open') return item.priority <= SendPriority.SESSION;
+    return true;
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const now = Date.now();
+    this.sentAt = this.sentAt.filter(timestamp => timestamp > now - this.window);
+
+    while (this.queue.length > 0) {
+      const index = this.queue.findIndex(item => this.canSend(item));
+      if (index === -1) return;
+
+      const item = this.queue[index]!;
+      const budget = item.priority === SendPriority.HEARTBEAT
+        ? this.limit
+        : this.limit - this.heartbeatReserve;
+
+      if (this.sentAt.length >= budget) {
+        const oldest = this.sentAt[this.sentAt.length - budget] ?? now;
+        this.flushTimer = setTimeout(() => this.flush(), Math.max(0, oldest + this.window - now));
+        return;
+      }
+
+      this.queue.splice(index, 1);
+      try {
+        const bytes = this.write(item.op, item.data);
+        this.sentAt.push(now);
+        item.resolve(bytes);
+      } catch (error) {
+        item.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { EventEmitter } from '@paws/event-emitter';
+import type { ConnectionMetrics } from '@paws/connection-monitor';
+import {
+  DiscordWebSocket,
+  type CloseOptions,
+  type DiscordGatewayEvents,
+  type DiscordWebSocketOptions,
+  type FetchGuildMembersOptions,
+  type FetchedGuildMembers,
+  type RequestGuildMembersOptions
+} from './DiscordWebSocket';
+import type { Identify } from './types';
+import type { Presence } from '@/presence/models';
+import type { SessionStorage } from '@/storage/session';
+import { DEFAULT_IDENTITY } from '@/constants';
+
+export const IDENTIFY_SPACING_MS = 5000;
+
+export type ShardManagerEvents = {
+  [K in keyof DiscordGatewayEvents]: { shardId: number; data: DiscordGatewayEvents[K] };
+};
+
+export interface ShardManagerOptions {
+  totalShards: number;
+  /** Shards owned by this process, defaults to all of `0..totalShards-1`. */
+  shardIds?: number[];
+  /** `session_start_limit.max_concurrency` from `/gateway/bot`. */
+  maxConcurrency?: number;
+  /** Milliseconds between identifies of one bucket. Defaults to `IDENTIFY_SPACING_MS`. */
+  identifySpacing?: number;
+  identifyOverrides?: Omit<Identify, 'token' | 'shard'>;
+  sessionStorage?: SessionStorage;
+  websocketOptions?: Omit<DiscordWebSocketOptions, 'sessionKey' | 'beforeIdentify'>;
+}
+
+export function shardIdForGuild(guildId: string, totalShards: number): number {
+  return Number((BigInt(guildId) >> 22n) % BigInt(totalShards));
+}
+
+export class ShardManager extends EventEmitter<ShardManagerEvents> {
+  private shards = new Map<number, DiscordWebSocket>();
+  private bucketQueues = new Map<number, Promise<void>>();
+  private lastIdentify = new Map<number, number>();
+  private totalShards: number;
+  private shardIds: number[];
+  private maxConcurrency: number;
+
+  constructor(
+    private token: string,
+    private options: ShardManagerOptions
+  ) {
+    super();
+    this.totalShards = options.totalShards;
+    this.shardIds = options.shardIds ?? Array.from({ length: options.totalShards }, (_, id) => id);
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 1);
+
+    const invalid = this.shardIds.find(id => id < 0 || id >= this.totalShards);
+    if (invalid !== undefined) {
+      throw new Error(`Shard ${invalid} is out of range for ${this.totalShards} shards`);
+    }
+  }
+
+  /**
+   * Connects shards in waves of `maxConcurrency`. Each identify is further
+   * gated by its bucket (`shard_id % max_concurrency`), which also covers
+   * re-identifies after a shard reconnects.
+   */
+  async connect(): Promise<void> {
+    for (let i = 0; i < this.shardIds.length; i += this.maxConcurrency) {
+      const wave = this.shardIds.slice(i, i + this.maxConcurrency);
+      await Promise.all(wave.map(id => this.spawn(id).connect()));
+    }
+  }
+
+  private spawn(shardId: number): DiscordWebSocket {
+    const existing = this.shards.get(shardId);
+    if (existing) return existing;
+
+    const shard = new DiscordWebSocket(
+      this.token,
+      {
+        ...DEFAULT_IDENTITY,
+        ...this.options.identifyOverrides,
+        shard: [shardId, this.totalShards]
+      },
+      this.options.sessionStorage,
+      {
+        ...this.options.websocketOptions,
+        sessionKey: `${this.token}:shard:${shardId}`,
+        beforeIdentify: () => this.waitForIdentify(shardId)
+      }
+    );
+
+    shard.onAny((event, data) => {
+      this.emit(event, { shardId, data } as ShardManagerEvents[typeof event]);
+    });
+
+    this.shards.set(shardId, shard);
+    return shard;
+  }
+
+  private waitForIdentify(shardId: number): Promise<void> {
+    const bucket = shardId % this.maxConcurrency;
+    const previous = this.bucketQueues.get(bucket) ?? Promise.resolve();
+
+    const turn = previous.then(async () => {
+      const wait = (this.lastIdentify.get(bucket) ?? 0) + (this.options.identifySpacing ?? IDENTIFY_SPACING_MS) - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.lastIdentify.set(bucket, Date.now());
+    });
+
+    this.bucketQueues.set(bucket, turn);
+    return turn;
+  }
+
+  getShard(shardId: number): DiscordWebSocket | undefined {
+    return this.shards.get(shardId);
+  }
+
+  getShardForGuild(guildId: string): DiscordWebSocket {
+    const shardId = shardIdForGuild(guildId, this.totalShards);
+    const shard = this.shards.get(shardId);
+    if (!shard) {
+      throw new Error(`Guild ${guildId} belongs to shard ${shardId}, which is not managed by this process`);
+    }
+    return shard;
+  }
+
+  getShardCount(): number {
+    return this.totalShards;
+  }
+
+  async requestGuildMembers(guildId: string, options?: RequestGuildMembersOptions): Promise<void> {
+    await this.getShardForGuild(guildId).requestGuildMembers(guildId, options);
+  }
+
+  fetchGuildMembers(guildId: string, options?: FetchGuildMembersOptions): Promise<FetchedGuildMembers> {
+    return this.getShardForGuild(guildId).fetchGuildMembers(guildId, options);
+  }
+
+  async sendActivity(presence: Presence): Promise<void> {
+    await Promise.all([...this.shards.values()].map(shard => shard.sendActivity(presence)));
+  }
+
+  getConnectionMetrics(): Map<number, Readonly<ConnectionMetrics>> {
+    const metrics = new Map<number, Readonly<ConnectionMetrics>>();
+    this.shards.forEach((shard, shardId) => metrics.set(shardId, shard.getConnectionMetrics()));
+    return metrics;
+  }
+
+  /**
+   * With `resumable` every shard keeps its session and the manager can be reconnected.
+   */
+  async close(options: CloseOptions = {}): Promise<void> {
+    await Promise.all([...this.shards.values()].map(shard => shard.close(options)));
+    if (options.resumable) return;
+
+    this.shards.clear();
+    this.bucketQueues.clear();
+    this.lastIdentify.clear();
+  }
+}
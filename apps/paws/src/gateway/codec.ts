@@ -0,0 +1,56 @@
+import type { GatewayPayload } from './types';
+import { packEtf, unpackEtf } from './etf';
+
+export type GatewayEncoding = 'json' | 'etf';
+
+export interface OutgoingPayload {
+  op: number;
+  d: unknown;
+}
+
+/**
+ * Translates between gateway payloads and wire frames. `DiscordWebSocket`
+ * only talks to this interface, so the encoding is invisible to the rest
+ * of the client.
+ */
+export interface GatewayCodec {
+  readonly encoding: GatewayEncoding;
+  encode(payload: OutgoingPayload): string | Uint8Array;
+  decode(data: string | Uint8Array): GatewayPayload;
+}
+
+const textDecoder = new TextDecoder();
+
+export class JsonCodec implements GatewayCodec {
+  readonly encoding = 'json';
+
+  encode(payload: OutgoingPayload): string {
+    return JSON.stringify(payload, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+  }
+
+  decode(data: string | Uint8Array): GatewayPayload {
+    return JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data));
+  }
+}
+
+export class EtfCodec implements GatewayCodec {
+  readonly encoding = 'etf';
+
+  encode(payload: OutgoingPayload): Uint8Array {
+    return packEtf(payload);
+  }
+
+  decode(data: string | Uint8Array): GatewayPayload {
+    if (typeof data === 'string') {
+      throw new Error('ETF payloads must be binary frames');
+    }
+    return unpackEtf(data) as GatewayPayload;
+  }
+}
+
+export function createCodec(encoding: GatewayEncoding = 'json'): GatewayCodec {
+  if (encoding === 'etf') {
+    return new EtfCodec();
+  }
+  return new JsonCodec();
+}
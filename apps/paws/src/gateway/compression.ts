@@ -0,0 +1,106 @@
+import { createInflate, constants, type Inflate } from 'node:zlib';
+
+export type GatewayCompression = 'none' | 'zlib-stream';
+
+const ZLIB_SUFFIX = [0x00, 0x00, 0xff, 0xff] as const;
+
+export function toUint8Array(data: string | ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data);
+  }
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+function endsWithSyncFlush(data: Uint8Array): boolean {
+  if (data.length < ZLIB_SUFFIX.length) return false;
+  const offset = data.length - ZLIB_SUFFIX.length;
+  return ZLIB_SUFFIX.every((byte, index) => data[offset + index] === byte);
+}
+
+/**
+ * Shared inflate context for a single `compress=zlib-stream` connection.
+ * Frames are buffered until the Z_SYNC_FLUSH suffix arrives, then inflated
+ * in arrival order. A new instance is required for every new socket.
+ */
+export class ZlibStreamInflater {
+  private inflate: Inflate;
+  private buffered: Uint8Array[] = [];
+  private output: Buffer[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private rejectInFlight: ((error: Error) => void) | null = null;
+  private destroyed = false;
+
+  constructor() {
+    this.inflate = createInflate({ chunkSize: 65535, flush: constants.Z_SYNC_FLUSH });
+    this.inflate.on('data', (chunk: Buffer) => this.output.push(chunk));
+    // A corrupt frame only emits 'error', the write and flush callbacks never
+    // fire. The context is unusable afterwards, so fail the frame and shut down.
+    this.inflate.on('error', (error: Error) => {
+      const reject = this.rejectInFlight;
+      this.rejectInFlight = null;
+      this.queue = Promise.resolve();
+      this.destroy();
+      reject?.(error);
+    });
+  }
+
+  /**
+   * Feed a raw frame. Resolves with the decompressed message once a full
+   * message has been received, or `null` while still buffering.
+   */
+  push(data: Uint8Array): Promise<Uint8Array | null> {
+    if (this.destroyed) {
+      return Promise.reject(new Error('Inflate context has been destroyed'));
+    }
+
+    this.buffered.push(data);
+    if (!endsWithSyncFlush(data)) {
+      return Promise.resolve(null);
+    }
+
+    const frame = Buffer.concat(this.buffered);
+    this.buffered = [];
+
+    const result = this.queue.then(() => this.inflateFrame(frame));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private inflateFrame(frame: Buffer): Promise<Uint8Array> {
+    if (this.destroyed) {
+      return Promise.reject(new Error('Inflate context has been destroyed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.rejectInFlight = reject;
+      this.inflate.write(frame, (error) => {
+        if (error) reject(error);
+      });
+      this.inflate.flush(constants.Z_SYNC_FLUSH, () => {
+        this.rejectInFlight = null;
+        const output = Buffer.concat(this.output);
+        this.output = [];
+        resolve(output);
+      });
+    });
+  }
+
+  getBufferedSize(): number {
+    return this.buffered.reduce((size, chunk) => size + chunk.length, 0);
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.buffered = [];
+    this.output = [];
+    this.inflate.removeAllListeners('data');
+    this.inflate.destroy();
+  }
+}
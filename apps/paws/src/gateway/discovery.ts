@@ -0,0 +1,148 @@
+import { DebugLogger } from '@paws/debug-logger';
+import { GATEWAY_VERSION } from '@/constants';
+import type { IdentifyBudget, SessionStorage } from '@/storage/session';
+import { GatewayBotResponseSchema, GatewayResponseSchema, type SessionStartLimit } from './types';
+
+export const DEFAULT_API_BASE = `https://discord.com/api/v${GATEWAY_VERSION}`;
+
+const SESSION_START_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Per-token queue so concurrent identifies in this process never read the same count.
+const budgetLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Minimal `fetch` shape used for discovery, so callers can route it through
+ * their own HTTP client, proxy or cache.
+ */
+export type GatewayFetcher = (url: string, init: { headers: Record<string, string> }) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}>;
+
+export interface GatewayDiscoveryOptions {
+  /** `bot` calls the authenticated `/gateway/bot` and also returns the identify budget. Defaults to `gateway`. */
+  endpoint?: 'gateway' | 'bot';
+  fetcher?: GatewayFetcher;
+  apiBase?: string;
+}
+
+export interface GatewayInfo {
+  url: string;
+  shards?: number;
+  sessionStartLimit?: SessionStartLimit;
+}
+
+export async function fetchGatewayInfo(token: string, options: GatewayDiscoveryOptions = {}): Promise<GatewayInfo> {
+  const fetcher = options.fetcher ?? fetch;
+  const endpoint = options.endpoint ?? 'gateway';
+  const path = endpoint === 'bot' ? '/gateway/bot' : '/gateway';
+  const headers: Record<string, string> = endpoint === 'bot' ? { Authorization: `Bot ${token}` } : {};
+
+  const response = await fetcher(`${options.apiBase ?? DEFAULT_API_BASE}${path}`, { headers });
+  if (!response.ok) {
+    throw new Error(`Gateway discovery failed with status ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (endpoint === 'gateway') {
+    return GatewayResponseSchema.parse(body);
+  }
+
+  const bot = GatewayBotResponseSchema.parse(body);
+  return { url: bot.url, shards: bot.shards, sessionStartLimit: bot.session_start_limit };
+}
+
+/**
+ * What to do when the identify budget is used up: wait for `reset_after`, or fail the identify.
+ */
+export type IdentifyBudgetMode = 'wait' | 'refuse';
+
+/**
+ * Tracks `session_start_limit` for a token. The budget is persisted through
+ * the session storage when it supports it, so processes sharing the token see
+ * the same count. Taking from it is only atomic within one process: storage
+ * has no compare-and-set, so two processes identifying at the same moment can
+ * both spend the last identify.
+ */
+export class IdentifyLimiter {
+  private budget: IdentifyBudget | null = null;
+
+  constructor(
+    private token: string,
+    private storage: SessionStorage,
+    private mode: IdentifyBudgetMode = 'wait',
+    private logger: DebugLogger = new DebugLogger()
+  ) {}
+
+  async update(limit: SessionStartLimit): Promise<void> {
+    await this.save({
+      total: limit.total,
+      remaining: limit.remaining,
+      resetAt: Date.now() + limit.reset_after,
+      maxConcurrency: limit.max_concurrency
+    });
+  }
+
+  async get(): Promise<IdentifyBudget | null> {
+    const stored = await this.storage.loadIdentifyBudget?.(this.token);
+    if (stored) {
+      this.budget = stored;
+    }
+    return this.budget;
+  }
+
+  /**
+   * Takes one identify from the budget. Without a known budget this is a no-op.
+   */
+  async acquire(): Promise<void> {
+    let wait = await this.locked(() => this.take());
+    while (wait > 0) {
+      this.logger.logWarn(`Identify budget exhausted, waiting ${wait}ms`, this.budget);
+      await new Promise(resolve => setTimeout(resolve, wait));
+      wait = await this.locked(() => this.take());
+    }
+  }
+
+  /**
+   * Decrements the budget, or returns how long until it resets when it is used up.
+   */
+  private async take(): Promise<number> {
+    let budget = await this.get();
+    if (!budget) return 0;
+
+    if (Date.now() >= budget.resetAt) {
+      // The budget window is a day; the real value is refreshed on the next discovery.
+      budget = { ...budget, remaining: budget.total, resetAt: Date.now() + SESSION_START_WINDOW_MS };
+    }
+
+    if (budget.remaining <= 0) {
+      const wait = Math.max(1, budget.resetAt - Date.now());
+      if (this.mode === 'refuse') {
+        throw new Error(`Identify budget exhausted, resets in ${wait}ms`);
+      }
+      return wait;
+    }
+
+    await this.save({ ...budget, remaining: budget.remaining - 1 });
+    return 0;
+  }
+
+  private async locked<T>(task: () => Promise<T>): Promise<T> {
+    const previous = budgetLocks.get(this.token) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(task);
+    budgetLocks.set(this.token, current);
+    try {
+      return await current;
+    } finally {
+      if (budgetLocks.get(this.token) === current) {
+        budgetLocks.delete(this.token);
+      }
+    }
+  }
+
+  private async save(budget: IdentifyBudget): Promise<void> {
+    this.budget = budget;
+    await this.storage.saveIdentifyBudget?.(this.token, budget);
+  }
+}
@@ -0,0 +1,285 @@
+import type { z } from 'zod';
+import {
+  ApplicationCommandPermissionsUpdateSchema,
+  AuditLogEntrySchema,
+  AutoModerationActionExecutionSchema,
+  AutoModerationRuleSchema,
+  ChannelPinsUpdateSchema,
+  ChannelSchema,
+  EntitlementSchema,
+  GuildBanSchema,
+  GuildCreateSchema,
+  GuildEmojisUpdateSchema,
+  GuildIntegrationsUpdateSchema,
+  GuildMemberAddSchema,
+  GuildMemberChunkSchema,
+  GuildMemberRemoveSchema,
+  GuildMemberUpdateSchema,
+  GuildRoleDeleteSchema,
+  GuildRoleUpdateSchema,
+  GuildScheduledEventSchema,
+  GuildScheduledEventUserSchema,
+  GuildSchema,
+  GuildSoundboardSoundDeleteSchema,
+  GuildStickersUpdateSchema,
+  IntegrationDeleteSchema,
+  IntegrationSchema,
+  InteractionSchema,
+  InviteCreateSchema,
+  InviteDeleteSchema,
+  MessageDeleteBulkSchema,
+  MessageDeleteSchema,
+  MessagePollVoteAddSchema,
+  MessagePollVoteRemoveSchema,
+  MessageReactionAddSchema,
+  MessageReactionRemoveAllSchema,
+  MessageReactionRemoveEmojiSchema,
+  MessageReactionRemoveSchema,
+  MessageSchema,
+  MessageUpdateSchema,
+  PresenceUpdateSchema,
+  SoundboardSoundSchema,
+  SoundboardSoundsSchema,
+  StageInstanceSchema,
+  SubscriptionSchema,
+  ThreadListSyncSchema,
+  ThreadMemberSchema,
+  ThreadMembersUpdateSchema,
+  ThreadSchema,
+  TypingStartSchema,
+  UnavailableGuildSchema,
+  UserSchema,
+  VoiceChannelEffectSendSchema,
+  VoiceServerUpdateSchema,
+  VoiceStateSchema,
+  WebhooksUpdateSchema
+} from './types';
+import type {
+  ApplicationCommandPermissionsUpdate,
+  AuditLogEntry,
+  AutoModerationActionExecution,
+  AutoModerationRule,
+  Channel,
+  ChannelPinsUpdate,
+  Entitlement,
+  Guild,
+  GuildBan,
+  GuildCreate,
+  GuildEmojisUpdate,
+  GuildIntegrationsUpdate,
+  GuildMemberAdd,
+  GuildMemberChunk,
+  GuildMemberRemove,
+  GuildMemberUpdate,
+  GuildRoleDelete,
+  GuildRoleUpdate,
+  GuildScheduledEvent,
+  GuildScheduledEventUser,
+  GuildSoundboardSoundDelete,
+  GuildStickersUpdate,
+  Integration,
+  IntegrationDelete,
+  Interaction,
+  InviteCreate,
+  InviteDelete,
+  Message,
+  MessageDelete,
+  MessageDeleteBulk,
+  MessagePollVoteAdd,
+  MessagePollVoteRemove,
+  MessageReactionAdd,
+  MessageReactionRemove,
+  MessageReactionRemoveAll,
+  MessageReactionRemoveEmoji,
+  MessageUpdate,
+  PresenceUpdate,
+  RawDispatch,
+  SoundboardSound,
+  SoundboardSounds,
+  StageInstance,
+  Subscription,
+  Thread,
+  ThreadListSync,
+  ThreadMember,
+  ThreadMembersUpdate,
+  TypingStart,
+  UnavailableGuild,
+  User,
+  VoiceChannelEffectSend,
+  VoiceServerUpdate,
+  VoiceState,
+  WebhooksUpdate
+} from './types';
+
+/**
+ * Typed payloads for every v10 dispatch that `DiscordWebSocket` emits by name.
+ * READY, RESUMED and RATE_LIMITED are handled by the client itself.
+ */
+export interface DispatchEvents {
+  applicationCommandPermissionsUpdate: ApplicationCommandPermissionsUpdate;
+  autoModerationRuleCreate: AutoModerationRule;
+  autoModerationRuleUpdate: AutoModerationRule;
+  autoModerationRuleDelete: AutoModerationRule;
+  autoModerationActionExecution: AutoModerationActionExecution;
+  channelCreate: Channel;
+  channelUpdate: Channel;
+  channelDelete: Channel;
+  channelPinsUpdate: ChannelPinsUpdate;
+  threadCreate: Thread;
+  threadUpdate: Thread;
+  threadDelete: Thread;
+  threadListSync: ThreadListSync;
+  threadMemberUpdate: ThreadMember;
+  threadMembersUpdate: ThreadMembersUpdate;
+  entitlementCreate: Entitlement;
+  entitlementUpdate: Entitlement;
+  entitlementDelete: Entitlement;
+  guildCreate: GuildCreate;
+  guildUpdate: Guild;
+  guildDelete: UnavailableGuild;
+  guildAuditLogEntryCreate: AuditLogEntry;
+  guildBanAdd: GuildBan;
+  guildBanRemove: GuildBan;
+  guildEmojisUpdate: GuildEmojisUpdate;
+  guildStickersUpdate: GuildStickersUpdate;
+  guildIntegrationsUpdate: GuildIntegrationsUpdate;
+  guildMemberAdd: GuildMemberAdd;
+  guildMemberRemove: GuildMemberRemove;
+  guildMemberUpdate: GuildMemberUpdate;
+  guildMemberChunk: GuildMemberChunk;
+  guildRoleCreate: GuildRoleUpdate;
+  guildRoleUpdate: GuildRoleUpdate;
+  guildRoleDelete: GuildRoleDelete;
+  guildScheduledEventCreate: GuildScheduledEvent;
+  guildScheduledEventUpdate: GuildScheduledEvent;
+  guildScheduledEventDelete: GuildScheduledEvent;
+  guildScheduledEventUserAdd: GuildScheduledEventUser;
+  guildScheduledEventUserRemove: GuildScheduledEventUser;
+  guildSoundboardSoundCreate: SoundboardSound;
+  guildSoundboardSoundUpdate: SoundboardSound;
+  guildSoundboardSoundDelete: GuildSoundboardSoundDelete;
+  guildSoundboardSoundsUpdate: SoundboardSounds;
+  soundboardSounds: SoundboardSounds;
+  integrationCreate: Integration;
+  integrationUpdate: Integration;
+  integrationDelete: IntegrationDelete;
+  interactionCreate: Interaction;
+  inviteCreate: InviteCreate;
+  inviteDelete: InviteDelete;
+  messageCreate: Message;
+  messageUpdate: MessageUpdate;
+  messageDelete: MessageDelete;
+  messageDeleteBulk: MessageDeleteBulk;
+  messageReactionAdd: MessageReactionAdd;
+  messageReactionRemove: MessageReactionRemove;
+  messageReactionRemoveAll: MessageReactionRemoveAll;
+  messageReactionRemoveEmoji: MessageReactionRemoveEmoji;
+  messagePollVoteAdd: MessagePollVoteAdd;
+  messagePollVoteRemove: MessagePollVoteRemove;
+  presenceUpdate: PresenceUpdate;
+  stageInstanceCreate: StageInstance;
+  stageInstanceUpdate: StageInstance;
+  stageInstanceDelete: StageInstance;
+  subscriptionCreate: Subscription;
+  subscriptionUpdate: Subscription;
+  subscriptionDelete: Subscription;
+  typingStart: TypingStart;
+  userUpdate: User;
+  voiceChannelEffectSend: VoiceChannelEffectSend;
+  voiceStateUpdate: VoiceState;
+  voiceServerUpdate: VoiceServerUpdate;
+  webhooksUpdate: WebhooksUpdate;
+  /** Any dispatch without a typed entry above, so new Discord events are never dropped. */
+  dispatch: RawDispatch;
+}
+
+export type DispatchEventName = Exclude<keyof DispatchEvents, 'dispatch'>;
+
+export interface DispatchEntry<K extends DispatchEventName = DispatchEventName> {
+  event: K;
+  schema: z.ZodType<DispatchEvents[K]>;
+}
+
+function entry<K extends DispatchEventName>(event: K, schema: z.ZodType<DispatchEvents[K]>): DispatchEntry<K> {
+  return { event, schema };
+}
+
+export const DISPATCH_EVENTS: Record<string, DispatchEntry> = {
+  APPLICATION_COMMAND_PERMISSIONS_UPDATE: entry('applicationCommandPermissionsUpdate', ApplicationCommandPermissionsUpdateSchema),
+  AUTO_MODERATION_RULE_CREATE: entry('autoModerationRuleCreate', AutoModerationRuleSchema),
+  AUTO_MODERATION_RULE_UPDATE: entry('autoModerationRuleUpdate', AutoModerationRuleSchema),
+  AUTO_MODERATION_RULE_DELETE: entry('autoModerationRuleDelete', AutoModerationRuleSchema),
+  AUTO_MODERATION_ACTION_EXECUTION: entry('autoModerationActionExecution', AutoModerationActionExecutionSchema),
+  CHANNEL_CREATE: entry('channelCreate', ChannelSchema),
+  CHANNEL_UPDATE: entry('channelUpdate', ChannelSchema),
+  CHANNEL_DELETE: entry('channelDelete', ChannelSchema),
+  CHANNEL_PINS_UPDATE: entry('channelPinsUpdate', ChannelPinsUpdateSchema),
+  THREAD_CREATE: entry('threadCreate', ThreadSchema),
+  THREAD_UPDATE: entry('threadUpdate', ThreadSchema),
+  THREAD_DELETE: entry('threadDelete', ThreadSchema),
+  THREAD_LIST_SYNC: entry('threadListSync', ThreadListSyncSchema),
+  THREAD_MEMBER_UPDATE: entry('threadMemberUpdate', ThreadMemberSchema),
+  THREAD_MEMBERS_UPDATE: entry('threadMembersUpdate', ThreadMembersUpdateSchema),
+  ENTITLEMENT_CREATE: entry('entitlementCreate', EntitlementSchema),
+  ENTITLEMENT_UPDATE: entry('entitlementUpdate', EntitlementSchema),
+  ENTITLEMENT_DELETE: entry('entitlementDelete', EntitlementSchema),
+  GUILD_CREATE: entry('guildCreate', GuildCreateSchema),
+  GUILD_UPDATE: entry('guildUpdate', GuildSchema),
+  GUILD_DELETE: entry('guildDelete', UnavailableGuildSchema),
+  GUILD_AUDIT_LOG_ENTRY_CREATE: entry('guildAuditLogEntryCreate', AuditLogEntrySchema),
+  GUILD_BAN_ADD: entry('guildBanAdd', GuildBanSchema),
+  GUILD_BAN_REMOVE: entry('guildBanRemove', GuildBanSchema),
+  GUILD_EMOJIS_UPDATE: entry('guildEmojisUpdate', GuildEmojisUpdateSchema),
+  GUILD_STICKERS_UPDATE: entry('guildStickersUpdate', GuildStickersUpdateSchema),
+  GUILD_INTEGRATIONS_UPDATE: entry('guildIntegrationsUpdate', GuildIntegrationsUpdateSchema),
+  GUILD_MEMBER_ADD: entry('guildMemberAdd', GuildMemberAddSchema),
+  GUILD_MEMBER_REMOVE: entry('guildMemberRemove', GuildMemberRemoveSchema),
+  GUILD_MEMBER_UPDATE: entry('guildMemberUpdate', GuildMemberUpdateSchema),
+  GUILD_MEMBERS_CHUNK: entry('guildMemberChunk', GuildMemberChunkSchema),
+  GUILD_ROLE_CREATE: entry('guildRoleCreate', GuildRoleUpdateSchema),
+  GUILD_ROLE_UPDATE: entry('guildRoleUpdate', GuildRoleUpdateSchema),
+  GUILD_ROLE_DELETE: entry('guildRoleDelete', GuildRoleDeleteSchema),
+  GUILD_SCHEDULED_EVENT_CREATE: entry('guildScheduledEventCreate', GuildScheduledEventSchema),
+  GUILD_SCHEDULED_EVENT_UPDATE: entry('guildScheduledEventUpdate', GuildScheduledEventSchema),
+  GUILD_SCHEDULED_EVENT_DELETE: entry('guildScheduledEventDelete', GuildScheduledEventSchema),
+  GUILD_SCHEDULED_EVENT_USER_ADD: entry('guildScheduledEventUserAdd', GuildScheduledEventUserSchema),
+  GUILD_SCHEDULED_EVENT_USER_REMOVE: entry('guildScheduledEventUserRemove', GuildScheduledEventUserSchema),
+  GUILD_SOUNDBOARD_SOUND_CREATE: entry('guildSoundboardSoundCreate', SoundboardSoundSchema),
+  GUILD_SOUNDBOARD_SOUND_UPDATE: entry('guildSoundboardSoundUpdate', SoundboardSoundSchema),
+  GUILD_SOUNDBOARD_SOUND_DELETE: entry('guildSoundboardSoundDelete', GuildSoundboardSoundDeleteSchema),
+  GUILD_SOUNDBOARD_SOUNDS_UPDATE: entry('guildSoundboardSoundsUpdate', SoundboardSoundsSchema),
+  SOUNDBOARD_SOUNDS: entry('soundboardSounds', SoundboardSoundsSchema),
+  INTEGRATION_CREATE: entry('integrationCreate', IntegrationSchema),
+  INTEGRATION_UPDATE: entry('integrationUpdate', IntegrationSchema),
+  INTEGRATION_DELETE: entry('integrationDelete', IntegrationDeleteSchema),
+  INTERACTION_CREATE: entry('interactionCreate', InteractionSchema),
+  INVITE_CREATE: entry('inviteCreate', InviteCreateSchema),
+  INVITE_DELETE: entry('inviteDelete', InviteDeleteSchema),
+  MESSAGE_CREATE: entry('messageCreate', MessageSchema),
+  MESSAGE_UPDATE: entry('messageUpdate', MessageUpdateSchema),
+  MESSAGE_DELETE: entry('messageDelete', MessageDeleteSchema),
+  MESSAGE_DELETE_BULK: entry('messageDeleteBulk', MessageDeleteBulkSchema),
+  MESSAGE_REACTION_ADD: entry('messageReactionAdd', MessageReactionAddSchema),
+  MESSAGE_REACTION_REMOVE: entry('messageReactionRemove', MessageReactionRemoveSchema),
+  MESSAGE_REACTION_REMOVE_ALL: entry('messageReactionRemoveAll', MessageReactionRemoveAllSchema),
+  MESSAGE_REACTION_REMOVE_EMOJI: entry('messageReactionRemoveEmoji', MessageReactionRemoveEmojiSchema),
+  MESSAGE_POLL_VOTE_ADD: entry('messagePollVoteAdd', MessagePollVoteAddSchema),
+  MESSAGE_POLL_VOTE_REMOVE: entry('messagePollVoteRemove', MessagePollVoteRemoveSchema),
+  PRESENCE_UPDATE: entry('presenceUpdate', PresenceUpdateSchema),
+  STAGE_INSTANCE_CREATE: entry('stageInstanceCreate', StageInstanceSchema),
+  STAGE_INSTANCE_UPDATE: entry('stageInstanceUpdate', StageInstanceSchema),
+  STAGE_INSTANCE_DELETE: entry('stageInstanceDelete', StageInstanceSchema),
+  SUBSCRIPTION_CREATE: entry('subscriptionCreate', SubscriptionSchema),
+  SUBSCRIPTION_UPDATE: entry('subscriptionUpdate', SubscriptionSchema),
+  SUBSCRIPTION_DELETE: entry('subscriptionDelete', SubscriptionSchema),
+  TYPING_START: entry('typingStart', TypingStartSchema),
+  USER_UPDATE: entry('userUpdate', UserSchema),
+  VOICE_CHANNEL_EFFECT_SEND: entry('voiceChannelEffectSend', VoiceChannelEffectSendSchema),
+  VOICE_STATE_UPDATE: entry('voiceStateUpdate', VoiceStateSchema),
+  VOICE_SERVER_UPDATE: entry('voiceServerUpdate', VoiceServerUpdateSchema),
+  WEBHOOKS_UPDATE: entry('webhooksUpdate', WebhooksUpdateSchema)
+};
+
+export function getDispatchEntry(eventType: string): DispatchEntry | undefined {
+  return Object.hasOwn(DISPATCH_EVENTS, eventType) ? DISPATCH_EVENTS[eventType] : undefined;
+}
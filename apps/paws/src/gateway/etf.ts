@@ -0,0 +1,376 @@
+import { inflateSync } from 'node:zlib';
+
+const FORMAT_VERSION = 131;
+
+enum Tag {
+  NEW_FLOAT = 70,
+  COMPRESSED = 80,
+  SMALL_INTEGER = 97,
+  INTEGER = 98,
+  FLOAT = 99,
+  ATOM = 100,
+  SMALL_TUPLE = 104,
+  LARGE_TUPLE = 105,
+  NIL = 106,
+  STRING = 107,
+  LIST = 108,
+  BINARY = 109,
+  SMALL_BIG = 110,
+  LARGE_BIG = 111,
+  SMALL_ATOM = 115,
+  MAP = 116,
+  ATOM_UTF8 = 118,
+  SMALL_ATOM_UTF8 = 119
+}
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+const textEncoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (const byte of bytes) {
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+class Decoder {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  decode(): unknown {
+    const version = this.readUint8();
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported ETF version: ${version}`);
+    }
+    return this.decodeTerm();
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of ETF data');
+    }
+  }
+
+  private readUint8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  private readUint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  private readUint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private readInt32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private decodeTerm(): unknown {
+    const tag = this.readUint8();
+
+    switch (tag) {
+      case Tag.SMALL_INTEGER:
+        return this.readUint8();
+      case Tag.INTEGER:
+        return this.readInt32();
+      case Tag.NEW_FLOAT: {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case Tag.FLOAT:
+        return parseFloat(decodeLatin1(this.readBytes(31)).replace(/\0+$/, ''));
+      case Tag.ATOM:
+      case Tag.ATOM_UTF8:
+        return this.decodeAtom(this.readBytes(this.readUint16()));
+      case Tag.SMALL_ATOM:
+      case Tag.SMALL_ATOM_UTF8:
+        return this.decodeAtom(this.readBytes(this.readUint8()));
+      case Tag.SMALL_TUPLE:
+        return this.decodeArray(this.readUint8());
+      case Tag.LARGE_TUPLE:
+        return this.decodeArray(this.readUint32());
+      case Tag.NIL:
+        return [];
+      case Tag.STRING:
+        return decodeLatin1(this.readBytes(this.readUint16()));
+      case Tag.LIST: {
+        const items = this.decodeArray(this.readUint32());
+        const tail = this.decodeTerm();
+        if (!Array.isArray(tail) || tail.length > 0) {
+          items.push(tail);
+        }
+        return items;
+      }
+      case Tag.BINARY:
+        return utf8Decoder.decode(this.readBytes(this.readUint32()));
+      case Tag.SMALL_BIG:
+        return this.decodeBig(this.readUint8());
+      case Tag.LARGE_BIG:
+        return this.decodeBig(this.readUint32());
+      case Tag.MAP:
+        return this.decodeMap(this.readUint32());
+      case Tag.COMPRESSED: {
+        const size = this.readUint32();
+        const inflated = inflateSync(this.data.subarray(this.offset));
+        if (inflated.length !== size) {
+          throw new Error('Compressed ETF term size mismatch');
+        }
+        this.offset = this.data.length;
+
+        const term = new Uint8Array(inflated.length + 1);
+        term[0] = FORMAT_VERSION;
+        term.set(inflated, 1);
+        return new Decoder(term).decode();
+      }
+      default:
+        throw new Error(`Unsupported ETF tag: ${tag}`);
+    }
+  }
+
+  private decodeAtom(bytes: Uint8Array): unknown {
+    const atom = utf8Decoder.decode(bytes);
+    switch (atom) {
+      case 'nil':
+      case 'null':
+        return null;
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      default:
+        return atom;
+    }
+  }
+
+  private decodeArray(length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.decodeTerm());
+    }
+    return items;
+  }
+
+  private decodeMap(arity: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (let i = 0; i < arity; i++) {
+      const key = this.decodeTerm();
+      map[String(key)] = this.decodeTerm();
+    }
+    return map;
+  }
+
+  /**
+   * Safe integers (millisecond timestamps included) become numbers; anything
+   * larger (snowflakes) becomes a decimal string so ids keep full precision.
+   */
+  private decodeBig(digits: number): number | string {
+    const sign = this.readUint8();
+    const bytes = this.readBytes(digits);
+
+    let value = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(bytes[i]!);
+    }
+    if (sign === 1) {
+      value = -value;
+    }
+
+    if (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+      return Number(value);
+    }
+    return value.toString();
+  }
+}
+
+class Encoder {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  encode(value: unknown): Uint8Array {
+    this.writeUint8(FORMAT_VERSION);
+    this.encodeTerm(value);
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private grow(length: number): void {
+    if (this.offset + length <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + length) {
+      size *= 2;
+    }
+
+    const next = new Uint8Array(size);
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  private writeUint8(value: number): void {
+    this.grow(1);
+    this.view.setUint8(this.offset++, value);
+  }
+
+  private writeUint32(value: number): void {
+    this.grow(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.grow(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  private encodeTerm(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.encodeAtom('nil');
+      return;
+    }
+
+    switch (typeof value) {
+      case 'boolean':
+        this.encodeAtom(value ? 'true' : 'false');
+        return;
+      case 'number':
+        this.encodeNumber(value);
+        return;
+      case 'bigint':
+        this.encodeBig(value);
+        return;
+      case 'string': {
+        const bytes = textEncoder.encode(value);
+        this.writeUint8(Tag.BINARY);
+        this.writeUint32(bytes.length);
+        this.writeBytes(bytes);
+        return;
+      }
+      case 'object':
+        if (Array.isArray(value)) {
+          this.encodeList(value);
+        } else {
+          this.encodeMap(value as Record<string, unknown>);
+        }
+        return;
+      default:
+        throw new Error(`Cannot encode value of type ${typeof value}`);
+    }
+  }
+
+  private encodeAtom(atom: string): void {
+    const bytes = textEncoder.encode(atom);
+    this.writeUint8(Tag.SMALL_ATOM_UTF8);
+    this.writeUint8(bytes.length);
+    this.writeBytes(bytes);
+  }
+
+  private encodeNumber(value: number): void {
+    if (Number.isInteger(value)) {
+      if (value >= 0 && value <= 255) {
+        this.writeUint8(Tag.SMALL_INTEGER);
+        this.writeUint8(value);
+        return;
+      }
+      if (value >= INT32_MIN && value <= INT32_MAX) {
+        this.writeUint8(Tag.INTEGER);
+        this.grow(4);
+        this.view.setInt32(this.offset, value);
+        this.offset += 4;
+        return;
+      }
+      if (Number.isSafeInteger(value)) {
+        this.encodeBig(BigInt(value));
+        return;
+      }
+    }
+
+    this.writeUint8(Tag.NEW_FLOAT);
+    this.grow(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  private encodeBig(value: bigint): void {
+    const sign = value < 0n ? 1 : 0;
+    let remaining = value < 0n ? -value : value;
+
+    const bytes: number[] = [];
+    while (remaining > 0n) {
+      bytes.push(Number(remaining & 0xffn));
+      remaining >>= 8n;
+    }
+
+    if (bytes.length > 255) {
+      throw new Error('Integer too large to encode');
+    }
+
+    this.writeUint8(Tag.SMALL_BIG);
+    this.writeUint8(bytes.length);
+    this.writeUint8(sign);
+    this.writeBytes(Uint8Array.from(bytes));
+  }
+
+  private encodeList(values: unknown[]): void {
+    if (values.length === 0) {
+      this.writeUint8(Tag.NIL);
+      return;
+    }
+
+    this.writeUint8(Tag.LIST);
+    this.writeUint32(values.length);
+    for (const item of values) {
+      this.encodeTerm(item);
+    }
+    this.writeUint8(Tag.NIL);
+  }
+
+  private encodeMap(value: Record<string, unknown>): void {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+    this.writeUint8(Tag.MAP);
+    this.writeUint32(entries.length);
+    for (const [key, entry] of entries) {
+      this.encodeTerm(key);
+      this.encodeTerm(entry);
+    }
+  }
+}
+
+export function packEtf(value: unknown): Uint8Array {
+  return new Encoder().encode(value);
+}
+
+export function unpackEtf(data: Uint8Array): unknown {
+  return new Decoder(data).decode();
+}
@@ -0,0 +1,31 @@
+/**
+ * Drives heartbeat timing: one beat after `firstDelay`, then every `interval`.
+ */
+export interface HeartbeatScheduler {
+  start(interval: number, firstDelay: number, onBeat: () => void): void;
+  stop(): void;
+}
+
+export class TimerHeartbeatScheduler implements HeartbeatScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  start(interval: number, firstDelay: number, onBeat: () => void): void {
+    this.stop();
+
+    const beat = (delay: number): void => {
+      this.timer = setTimeout(() => {
+        beat(interval);
+        onBeat();
+      }, delay);
+    };
+
+    beat(firstDelay);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { GatewayIntents } from './types';
+import type { DispatchEventName } from './dispatch';
+
+export type IntentName = keyof typeof GatewayIntents;
+
+export type IntentsResolvable = number | IntentName | IntentsBitField | readonly IntentsResolvable[];
+
+/**
+ * Intents that must be enabled for the application in the developer portal,
+ * otherwise identifying fails with close code 4014.
+ */
+export const PRIVILEGED_INTENTS: readonly IntentName[] = ['GUILD_MEMBERS', 'GUILD_PRESENCES', 'MESSAGE_CONTENT'];
+
+const INTENT_NAMES = Object.keys(GatewayIntents) as IntentName[];
+
+const ALL_INTENTS = INTENT_NAMES.reduce((bits, name) => bits | GatewayIntents[name], 0);
+
+/**
+ * Events that are only delivered when at least one of the listed intents is set.
+ * Events missing here are sent regardless of intents.
+ */
+export const EVENT_INTENTS: Partial<Record<DispatchEventName, readonly IntentName[]>> = {
+  guildCreate: ['GUILDS'],
+  guildUpdate: ['GUILDS'],
+  guildDelete: ['GUILDS'],
+  guildRoleCreate: ['GUILDS'],
+  guildRoleUpdate: ['GUILDS'],
+  guildRoleDelete: ['GUILDS'],
+  channelCreate: ['GUILDS'],
+  channelUpdate: ['GUILDS'],
+  channelDelete: ['GUILDS'],
+  channelPinsUpdate: ['GUILDS', 'DIRECT_MESSAGES'],
+  threadCreate: ['GUILDS'],
+  threadUpdate: ['GUILDS'],
+  threadDelete: ['GUILDS'],
+  threadListSync: ['GUILDS'],
+  threadMemberUpdate: ['GUILDS'],
+  threadMembersUpdate: ['GUILDS', 'GUILD_MEMBERS'],
+  stageInstanceCreate: ['GUILDS'],
+  stageInstanceUpdate: ['GUILDS'],
+  stageInstanceDelete: ['GUILDS'],
+  guildMemberAdd: ['GUILD_MEMBERS'],
+  guildMemberUpdate: ['GUILD_MEMBERS'],
+  guildMemberRemove: ['GUILD_MEMBERS'],
+  guildAuditLogEntryCreate: ['GUILD_BANS'],
+  guildBanAdd: ['GUILD_BANS'],
+  guildBanRemove: ['GUILD_BANS'],
+  guildEmojisUpdate: ['GUILD_EMOJIS'],
+  guildStickersUpdate: ['GUILD_EMOJIS'],
+  guildSoundboardSoundCreate: ['GUILD_EMOJIS'],
+  guildSoundboardSoundUpdate: ['GUILD_EMOJIS'],
+  guildSoundboardSoundDelete: ['GUILD_EMOJIS'],
+  guildSoundboardSoundsUpdate: ['GUILD_EMOJIS'],
+  guildIntegrationsUpdate: ['GUILD_INTEGRATIONS'],
+  integrationCreate: ['GUILD_INTEGRATIONS'],
+  integrationUpdate: ['GUILD_INTEGRATIONS'],
+  integrationDelete: ['GUILD_INTEGRATIONS'],
+  webhooksUpdate: ['GUILD_WEBHOOKS'],
+  inviteCreate: ['GUILD_INVITES'],
+  inviteDelete: ['GUILD_INVITES'],
+  voiceStateUpdate: ['GUILD_VOICE_STATES'],
+  voiceChannelEffectSend: ['GUILD_VOICE_STATES'],
+  presenceUpdate: ['GUILD_PRESENCES'],
+  messageCreate: ['GUILD_MESSAGES', 'DIRECT_MESSAGES'],
+  messageUpdate: ['GUILD_MESSAGES', 'DIRECT_MESSAGES'],
+  messageDelete: ['GUILD_MESSAGES', 'DIRECT_MESSAGES'],
+  messageDeleteBulk: ['GUILD_MESSAGES'],
+  messageReactionAdd: ['GUILD_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  messageReactionRemove: ['GUILD_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  messageReactionRemoveAll: ['GUILD_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  messageReactionRemoveEmoji: ['GUILD_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  typingStart: ['GUILD_MESSAGE_TYPING', 'DIRECT_MESSAGE_TYPING'],
+  guildScheduledEventCreate: ['GUILD_SCHEDULED_EVENTS'],
+  guildScheduledEventUpdate: ['GUILD_SCHEDULED_EVENTS'],
+  guildScheduledEventDelete: ['GUILD_SCHEDULED_EVENTS'],
+  guildScheduledEventUserAdd: ['GUILD_SCHEDULED_EVENTS'],
+  guildScheduledEventUserRemove: ['GUILD_SCHEDULED_EVENTS'],
+  autoModerationRuleCreate: ['AUTO_MODERATION_CONFIGURATION'],
+  autoModerationRuleUpdate: ['AUTO_MODERATION_CONFIGURATION'],
+  autoModerationRuleDelete: ['AUTO_MODERATION_CONFIGURATION'],
+  autoModerationActionExecution: ['AUTO_MODERATION_EXECUTION'],
+  messagePollVoteAdd: ['GUILD_MESSAGE_POLLS', 'DIRECT_MESSAGE_POLLS'],
+  messagePollVoteRemove: ['GUILD_MESSAGE_POLLS', 'DIRECT_MESSAGE_POLLS']
+};
+
+export class IntentsBitField {
+  static readonly Flags = GatewayIntents;
+  static readonly All = ALL_INTENTS;
+  static readonly Privileged = PRIVILEGED_INTENTS.reduce((bits, name) => bits | GatewayIntents[name], 0);
+
+  bitfield: number;
+
+  constructor(intents: IntentsResolvable = 0) {
+    this.bitfield = IntentsBitField.resolve(intents);
+  }
+
+  static resolve(intents: IntentsResolvable): number {
+    if (typeof intents === 'number') return intents;
+    if (intents instanceof IntentsBitField) return intents.bitfield;
+    if (typeof intents === 'string') {
+      const bit = GatewayIntents[intents];
+      if (bit === undefined) {
+        throw new Error(`Unknown intent: ${intents}`);
+      }
+      return bit;
+    }
+    return intents.reduce<number>((bits, intent) => bits | IntentsBitField.resolve(intent), 0);
+  }
+
+  add(...intents: IntentsResolvable[]): this {
+    this.bitfield |= IntentsBitField.resolve(intents);
+    return this;
+  }
+
+  remove(...intents: IntentsResolvable[]): this {
+    this.bitfield &= ~IntentsBitField.resolve(intents);
+    return this;
+  }
+
+  has(intents: IntentsResolvable): boolean {
+    const bits = IntentsBitField.resolve(intents);
+    return (this.bitfield & bits) === bits;
+  }
+
+  any(intents: IntentsResolvable): boolean {
+    return (this.bitfield & IntentsBitField.resolve(intents)) !== 0;
+  }
+
+  missing(intents: IntentsResolvable): IntentName[] {
+    return new IntentsBitField(intents).toArray().filter(name => !this.has(name));
+  }
+
+  toArray(): IntentName[] {
+    return INTENT_NAMES.filter(name => this.has(name));
+  }
+
+  privileged(): IntentName[] {
+    return PRIVILEGED_INTENTS.filter(name => this.has(name));
+  }
+
+  /** Bits that do not correspond to any known intent. */
+  unknownBits(): number {
+    return this.bitfield & ~ALL_INTENTS;
+  }
+
+  /**
+   * Whether an event can be delivered with these intents.
+   */
+  canReceive(event: string): boolean {
+    const required = EVENT_INTENTS[event as DispatchEventName];
+    return !required || required.some(name => this.has(name));
+  }
+
+  valueOf(): number {
+    return this.bitfield;
+  }
+
+  toJSON(): number {
+    return this.bitfield;
+  }
+}
+
+/**
+ * Names the intents responsible for an intents-related close: privileged
+ * intents for 4014 and unrecognized bits for 4013.
+ */
+export function describeIntentClose(code: number, intents: IntentsResolvable): string | null {
+  const field = new IntentsBitField(intents);
+
+  if (code === 4014) {
+    const privileged = field.privileged();
+    return privileged.length > 0
+      ? `Privileged intents not enabled for this application: ${privileged.join(', ')}`
+      : 'Privileged intents not enabled for this application';
+  }
+
+  if (code === 4013) {
+    const unknown = field.unknownBits();
+    return unknown !== 0
+      ? `Unknown intent bits: ${unknown} (0b${unknown.toString(2)})`
+      : `Intents value ${field.bitfield} was rejected`;
+  }
+
+  return null;
+}
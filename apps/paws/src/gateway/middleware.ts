@@ -0,0 +1,118 @@
+import type { ConnectionMonitor } from '@paws/connection-monitor';
+import type { DebugLogger } from '@paws/debug-logger';
+import type { RateLimiter } from '@paws/rate-limiter';
+import type { OutgoingPayload } from './codec';
+import type { GatewayPayload } from './types';
+
+export type MiddlewareDirection = 'inbound' | 'outbound';
+
+export interface InboundContext {
+  payload: GatewayPayload;
+  /** Size of the frame on the wire, before inflating. */
+  size: number;
+  receivedAt: number;
+}
+
+export interface OutboundContext {
+  payload: OutgoingPayload;
+  /** Encoded size, set once the payload has been written. */
+  bytes?: number;
+}
+
+/**
+ * Koa-style middleware. Call `next()` to pass the payload on, replace or edit
+ * `ctx.payload` to transform it, await before `next()` to delay it, or return
+ * without calling `next()` to drop it; a dropped outbound payload rejects the
+ * send that queued it. Inbound sequence numbers and heartbeat ACKs are
+ * recorded on arrival, before any middleware runs.
+ */
+export type GatewayMiddleware<C> = (ctx: C, next: () => Promise<void>) => void | Promise<void>;
+
+export type InboundMiddleware = GatewayMiddleware<InboundContext>;
+export type OutboundMiddleware = GatewayMiddleware<OutboundContext>;
+
+/**
+ * Runs `head`, then middlewares added through `use()`, then `tail`, then the terminal handler.
+ */
+export class MiddlewarePipeline<C> {
+  private middlewares: GatewayMiddleware<C>[] = [];
+
+  constructor(
+    private head: GatewayMiddleware<C>[] = [],
+    private tail: GatewayMiddleware<C>[] = []
+  ) {}
+
+  use(middleware: GatewayMiddleware<C>): void {
+    this.middlewares.push(middleware);
+  }
+
+  /**
+   * Resolves to false when a middleware dropped the payload.
+   */
+  async run(ctx: C, terminal: (ctx: C) => void | Promise<void>): Promise<boolean> {
+    const chain = [...this.head, ...this.middlewares, ...this.tail];
+    let reached = false;
+
+    const dispatch = async (index: number): Promise<void> => {
+      const middleware = chain[index];
+      if (!middleware) {
+        reached = true;
+        await terminal(ctx);
+        return;
+      }
+
+      let called = false;
+      await middleware(ctx, () => {
+        if (called) {
+          throw new Error('next() called multiple times');
+        }
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+
+    await dispatch(0);
+    return reached;
+  }
+}
+
+export function inboundLoggingMiddleware(logger: DebugLogger): InboundMiddleware {
+  return (ctx, next) => {
+    logger.logIncoming(ctx.payload, 'application');
+    return next();
+  };
+}
+
+export function outboundLoggingMiddleware(logger: DebugLogger): OutboundMiddleware {
+  return (ctx, next) => {
+    logger.logOutgoing(ctx.payload.op, ctx.payload.d, 'application');
+    return next();
+  };
+}
+
+export function inboundMetricsMiddleware(monitor: ConnectionMonitor): InboundMiddleware {
+  return (ctx, next) => {
+    monitor.recordMessageReceived(ctx.size);
+    return next();
+  };
+}
+
+export function outboundMetricsMiddleware(monitor: ConnectionMonitor): OutboundMiddleware {
+  return async (ctx, next) => {
+    await next();
+    if (ctx.bytes !== undefined) {
+      monitor.recordMessageSent(ctx.bytes);
+    }
+  };
+}
+
+/**
+ * Holds payloads whose opcode is still under a RATE_LIMITED cooldown or out of
+ * its client-side send budget.
+ */
+export function rateLimitMiddleware(rateLimiter: RateLimiter): OutboundMiddleware {
+  return async (ctx, next) => {
+    await rateLimiter.acquire(ctx.payload.op);
+    await next();
+  };
+}
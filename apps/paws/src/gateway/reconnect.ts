@@ -0,0 +1,76 @@
+import type { IntentName } from './intents';
+
+export type CloseAction = 'resume' | 'reidentify' | 'fatal';
+
+export interface CloseCodeInfo {
+  action: CloseAction;
+  description: string;
+}
+
+export const CLOSE_CODES: Record<number, CloseCodeInfo> = {
+  1000: { action: 'reidentify', description: 'Normal closure, the session was invalidated' },
+  1001: { action: 'resume', description: 'Going away, usually a server restart' },
+  1006: { action: 'resume', description: 'Abnormal closure, the connection dropped' },
+  1011: { action: 'resume', description: 'Internal server error' },
+  1012: { action: 'resume', description: 'Service restart' },
+  4000: { action: 'resume', description: 'Unknown error' },
+  4001: { action: 'resume', description: 'Unknown opcode sent' },
+  4002: { action: 'resume', description: 'Payload could not be decoded' },
+  4003: { action: 'reidentify', description: 'Payload sent before identifying' },
+  4004: { action: 'fatal', description: 'Authentication failed, the token is invalid' },
+  4005: { action: 'resume', description: 'Already authenticated' },
+  4007: { action: 'reidentify', description: 'Invalid sequence sent when resuming' },
+  4008: { action: 'resume', description: 'Rate limited, payloads were sent too quickly' },
+  4009: { action: 'reidentify', description: 'Session timed out' },
+  4010: { action: 'fatal', description: 'Invalid shard sent when identifying' },
+  4011: { action: 'fatal', description: 'Sharding is required for this many guilds' },
+  4012: { action: 'fatal', description: 'Invalid gateway API version' },
+  4013: { action: 'fatal', description: 'Invalid intents sent when identifying' },
+  4014: { action: 'fatal', description: 'Disallowed intents, privileged intents are not enabled' }
+};
+
+/**
+ * Codes missing from the table are treated as transient and resumed.
+ */
+export function classifyCloseCode(code: number): CloseCodeInfo {
+  return CLOSE_CODES[code] ?? { action: 'resume', description: `Unrecognized close code ${code}` };
+}
+
+/**
+ * Returns the delay in milliseconds before the given reconnect attempt (starting at 1).
+ */
+export type BackoffStrategy = (attempt: number) => number;
+
+export interface ExponentialBackoffOptions {
+  base?: number;
+  max?: number;
+  /** Randomizes each delay between half and all of its exponential value. */
+  jitter?: boolean;
+}
+
+export function exponentialBackoff(options: ExponentialBackoffOptions = {}): BackoffStrategy {
+  const { base = 1000, max = 30_000, jitter = true } = options;
+
+  return (attempt) => {
+    const delay = Math.min(max, base * 2 ** Math.max(0, attempt - 1));
+    return jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+  };
+}
+
+export interface ReconnectOptions {
+  /** Defaults to 5. Use `Infinity` to keep retrying forever. */
+  maxAttempts?: number;
+  backoff?: BackoffStrategy;
+}
+
+export interface FatalClose {
+  code: number;
+  reason: string;
+  description: string;
+  /** Reconnect attempts made before giving up. */
+  attempts: number;
+  /** True when the code was retryable but `maxAttempts` ran out. */
+  exhausted: boolean;
+  /** Privileged intents that were requested, set for close code 4014. */
+  intents?: IntentName[];
+}
@@ -0,0 +1,104 @@
+import type { FileSink } from 'bun';
+import type { GatewayPayload } from './types';
+import { OpCode } from './opcodes';
+
+export type RecordedDirection = 'in' | 'out';
+
+export interface RecordedFrame {
+  /** Epoch milliseconds. */
+  at: number;
+  direction: RecordedDirection;
+  payload: { op: number; d?: unknown; s?: number | null; t?: string | null };
+}
+
+const REDACTED = '[redacted]';
+
+/**
+ * IDENTIFY and RESUME carry the token, which must never end up in a recording
+ * attached to a bug report.
+ */
+function redact(payload: RecordedFrame['payload']): RecordedFrame['payload'] {
+  if ((payload.op === OpCode.IDENTIFY || payload.op === OpCode.RESUME) && payload.d && typeof payload.d === 'object') {
+    return { ...payload, d: { ...payload.d, token: REDACTED } };
+  }
+  return payload;
+}
+
+/**
+ * Writes every decoded payload of a session to a newline-delimited JSON file.
+ */
+export class SessionRecorder {
+  private sink: FileSink;
+  private frames = 0;
+
+  constructor(private path: string) {
+    this.sink = Bun.file(path).writer();
+  }
+
+  record(direction: RecordedDirection, payload: RecordedFrame['payload']): void {
+    const frame: RecordedFrame = { at: Date.now(), direction, payload: redact(payload) };
+    this.sink.write(`${JSON.stringify(frame, (_key, value) => typeof value === 'bigint' ? value.toString() : value)}\n`);
+    this.frames++;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  getFrameCount(): number {
+    return this.frames;
+  }
+
+  async close(): Promise<void> {
+    await this.sink.end();
+  }
+}
+
+export interface ReplayOptions {
+  /** Playback speed multiplier, 1 keeps the original timing. `Infinity` replays without delays. */
+  speed?: number;
+}
+
+export interface ReplayTarget {
+  replayPayload(payload: GatewayPayload): Promise<void>;
+}
+
+/**
+ * Feeds the incoming dispatches of a recording back into a client. Only
+ * dispatches are replayed: HELLO, RECONNECT and friends would make the client
+ * start heartbeats or reconnect, which a replay has no network for.
+ */
+export class SessionReplayer {
+  constructor(private frames: RecordedFrame[]) {}
+
+  static async load(path: string): Promise<SessionReplayer> {
+    const content = await Bun.file(path).text();
+    const frames = content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as RecordedFrame);
+    return new SessionReplayer(frames);
+  }
+
+  getFrames(direction?: RecordedDirection): RecordedFrame[] {
+    return direction ? this.frames.filter(frame => frame.direction === direction) : [...this.frames];
+  }
+
+  async replay(target: ReplayTarget, options: ReplayOptions = {}): Promise<number> {
+    const speed = options.speed ?? 1;
+    const dispatches = this.frames.filter(frame => frame.direction === 'in' && frame.payload.op === OpCode.DISPATCH);
+
+    let previousAt: number | null = null;
+    for (const frame of dispatches) {
+      const delay = previousAt === null || !Number.isFinite(speed) ? 0 : (frame.at - previousAt) / speed;
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      previousAt = frame.at;
+
+      await target.replayPayload({ ...frame.payload, op: OpCode.DISPATCH });
+    }
+
+    return dispatches.length;
+  }
+}
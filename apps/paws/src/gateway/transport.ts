@@ -0,0 +1,100 @@
+export interface GatewayTransportHandlers {
+  onOpen(): void;
+  onMessage(data: string | ArrayBuffer): void;
+  onClose(code: number, reason: string): void;
+  onError(error: Error): void;
+}
+
+/**
+ * The socket underneath `DiscordWebSocket`. One transport instance carries one
+ * connection; reconnects ask the factory for a fresh one.
+ */
+export interface GatewayTransport {
+  connect(url: string, handlers: GatewayTransportHandlers): void;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  isOpen(): boolean;
+}
+
+export type GatewayTransportFactory = () => GatewayTransport;
+
+export type TransportProxy = string | { url: string; headers?: Record<string, string> };
+
+export interface WebSocketTransportOptions {
+  /** Extra headers for the upgrade request. Needs Bun. */
+  headers?: Record<string, string>;
+  /**
+   * HTTP(S) proxy for the connection. Needs Bun 1.3.6 or newer; elsewhere,
+   * and for SOCKS proxies, supply a custom `GatewayTransport`.
+   */
+  proxy?: TransportProxy;
+}
+
+/**
+ * Which `WebSocketTransportOptions` the runtime's global `WebSocket` honours.
+ * Node's ignores its second argument entirely, and Bun only learnt `proxy`
+ * in 1.3.6, so an unsupported option would silently connect without it.
+ */
+export function getWebSocketTransportSupport(): { headers: boolean; proxy: boolean } {
+  const bun = process.versions.bun;
+  if (!bun) {
+    return { headers: false, proxy: false };
+  }
+
+  const [major = 0, minor = 0, patch = 0] = bun.split('.').map(part => parseInt(part, 10) || 0);
+  const proxy = major > 1 || (major === 1 && (minor > 3 || (minor === 3 && patch >= 6)));
+  return { headers: true, proxy };
+}
+
+/**
+ * Default transport wrapping the global `WebSocket`.
+ */
+export class WebSocketTransport implements GatewayTransport {
+  private ws: WebSocket | null = null;
+
+  constructor(private options: WebSocketTransportOptions = {}) {
+    const proxyUrl = typeof options.proxy === 'string' ? options.proxy : options.proxy?.url;
+    if (proxyUrl?.startsWith('socks')) {
+      throw new Error('SOCKS proxies are not supported by the default transport, supply a custom GatewayTransport');
+    }
+
+    const support = getWebSocketTransportSupport();
+    if (options.proxy && !support.proxy) {
+      throw new Error('This runtime\'s WebSocket cannot use a proxy, supply a custom GatewayTransport');
+    }
+    if (options.headers && !support.headers) {
+      throw new Error('This runtime\'s WebSocket cannot send custom headers, supply a custom GatewayTransport');
+    }
+  }
+
+  connect(url: string, handlers: GatewayTransportHandlers): void {
+    const { headers, proxy } = this.options;
+    const ws = headers || proxy ? new WebSocket(url, { headers, proxy }) : new WebSocket(url);
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
+
+    ws.addEventListener('open', () => handlers.onOpen());
+    ws.addEventListener('message', (event: MessageEvent) => handlers.onMessage(event.data));
+    ws.addEventListener('close', (event: CloseEvent) => handlers.onClose(event.code, event.reason));
+    ws.addEventListener('error', (event: Event) => handlers.onError(new Error(`WebSocket error: ${event}`)));
+  }
+
+  send(data: string | Uint8Array): void {
+    if (!this.ws) {
+      throw new Error('Transport is not connected');
+    }
+    this.ws.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.ws?.close(code, reason);
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+}
+
+export function createWebSocketTransport(options: WebSocketTransportOptions = {}): GatewayTransportFactory {
+  return () => new WebSocketTransport(options);
+}
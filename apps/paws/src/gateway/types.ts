@@ -30,7 +30,11 @@ export const GatewayIntentsSchema = z.object({
   MESSAGE_CONTENT: z.literal(1 << 15),
   GUILD_SCHEDULED_EVENTS: z.literal(1 << 16),
   AUTO_MODERATION_RULES: z.literal(1 << 17),
-  GUILD_MESSAGE_ACTIVITY: z.literal(1 << 18)
+  GUILD_MESSAGE_ACTIVITY: z.literal(1 << 18),
+  AUTO_MODERATION_CONFIGURATION: z.literal(1 << 20),
+  AUTO_MODERATION_EXECUTION: z.literal(1 << 21),
+  GUILD_MESSAGE_POLLS: z.literal(1 << 24),
+  DIRECT_MESSAGE_POLLS: z.literal(1 << 25)
 });
 
 export const GatewayIntents = {
@@ -52,7 +56,11 @@ export const GatewayIntents = {
   MESSAGE_CONTENT: 1 << 15,
   GUILD_SCHEDULED_EVENTS: 1 << 16,
   AUTO_MODERATION_RULES: 1 << 17,
-  GUILD_MESSAGE_ACTIVITY: 1 << 18
+  GUILD_MESSAGE_ACTIVITY: 1 << 18,
+  AUTO_MODERATION_CONFIGURATION: 1 << 20,
+  AUTO_MODERATION_EXECUTION: 1 << 21,
+  GUILD_MESSAGE_POLLS: 1 << 24,
+  DIRECT_MESSAGE_POLLS: 1 << 25
 } as const;
 
 export type GatewayIntentsType = typeof GatewayIntents;
@@ -300,3 +308,698 @@ export const ChannelSchema = z.object({
 });
 
 export type Channel = z.infer<typeof ChannelSchema>;
+
+const StatusTypeSchema = z.enum(['online', 'dnd', 'idle', 'invisible', 'offline']);
+
+export const UserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  discriminator: z.string(),
+  global_name: z.string().nullable().optional(),
+  avatar: z.string().nullable().optional(),
+  bot: z.boolean().optional(),
+  system: z.boolean().optional(),
+  banner: z.string().nullable().optional(),
+  accent_color: z.number().nullable().optional(),
+  public_flags: z.number().optional(),
+  avatar_decoration_data: z.unknown().optional()
+});
+
+export type User = z.infer<typeof UserSchema>;
+
+export const GuildMemberSchema = z.object({
+  user: UserSchema.optional(),
+  nick: z.string().nullable().optional(),
+  avatar: z.string().nullable().optional(),
+  banner: z.string().nullable().optional(),
+  roles: z.array(z.string()),
+  joined_at: z.string().nullable().optional(),
+  premium_since: z.string().nullable().optional(),
+  deaf: z.boolean().optional(),
+  mute: z.boolean().optional(),
+  flags: z.number().optional(),
+  pending: z.boolean().optional(),
+  permissions: z.string().optional(),
+  communication_disabled_until: z.string().nullable().optional()
+});
+
+export type GuildMember = z.infer<typeof GuildMemberSchema>;
+
+export const RoleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.number(),
+  hoist: z.boolean(),
+  icon: z.string().nullable().optional(),
+  unicode_emoji: z.string().nullable().optional(),
+  position: z.number(),
+  permissions: z.string(),
+  managed: z.boolean(),
+  mentionable: z.boolean(),
+  tags: z.record(z.string(), z.unknown()).optional(),
+  flags: z.number().optional()
+});
+
+export type Role = z.infer<typeof RoleSchema>;
+
+export const EmojiSchema = z.object({
+  id: z.string().nullable(),
+  name: z.string().nullable(),
+  roles: z.array(z.string()).optional(),
+  user: UserSchema.optional(),
+  require_colons: z.boolean().optional(),
+  managed: z.boolean().optional(),
+  animated: z.boolean().optional(),
+  available: z.boolean().optional()
+});
+
+export type Emoji = z.infer<typeof EmojiSchema>;
+
+export const StickerSchema = z.object({
+  id: z.string(),
+  pack_id: z.string().optional(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  tags: z.string().optional(),
+  type: z.number(),
+  format_type: z.number(),
+  available: z.boolean().optional(),
+  guild_id: z.string().optional(),
+  user: UserSchema.optional(),
+  sort_value: z.number().optional()
+});
+
+export type Sticker = z.infer<typeof StickerSchema>;
+
+export const GatewayActivitySchema = z.object({
+  name: z.string(),
+  type: z.number(),
+  url: z.string().nullable().optional(),
+  created_at: z.number().optional(),
+  timestamps: z.object({
+    start: z.number().optional(),
+    end: z.number().optional()
+  }).optional(),
+  application_id: z.string().optional(),
+  details: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  emoji: z.object({
+    name: z.string(),
+    id: z.string().optional(),
+    animated: z.boolean().optional()
+  }).nullable().optional(),
+  party: z.object({
+    id: z.string().optional(),
+    size: z.tuple([z.number(), z.number()]).optional()
+  }).optional(),
+  assets: z.record(z.string(), z.string()).optional(),
+  instance: z.boolean().optional(),
+  flags: z.number().optional(),
+  buttons: z.array(z.unknown()).optional()
+});
+
+export type GatewayActivity = z.infer<typeof GatewayActivitySchema>;
+
+export const ClientStatusSchema = z.object({
+  desktop: StatusTypeSchema.optional(),
+  mobile: StatusTypeSchema.optional(),
+  web: StatusTypeSchema.optional()
+});
+
+export type ClientStatus = z.infer<typeof ClientStatusSchema>;
+
+export const PresenceUpdateSchema = z.object({
+  user: UserSchema.partial().extend({ id: z.string() }),
+  guild_id: z.string().optional(),
+  status: StatusTypeSchema,
+  activities: z.array(GatewayActivitySchema),
+  client_status: ClientStatusSchema
+});
+
+export type PresenceUpdate = z.infer<typeof PresenceUpdateSchema>;
+
+export const VoiceStateSchema = z.object({
+  guild_id: z.string().optional(),
+  channel_id: z.string().nullable(),
+  user_id: z.string(),
+  member: GuildMemberSchema.optional(),
+  session_id: z.string(),
+  deaf: z.boolean(),
+  mute: z.boolean(),
+  self_deaf: z.boolean(),
+  self_mute: z.boolean(),
+  self_stream: z.boolean().optional(),
+  self_video: z.boolean(),
+  suppress: z.boolean(),
+  request_to_speak_timestamp: z.string().nullable().optional()
+});
+
+export type VoiceState = z.infer<typeof VoiceStateSchema>;
+
+export const VoiceServerUpdateSchema = z.object({
+  token: z.string(),
+  guild_id: z.string(),
+  endpoint: z.string().nullable()
+});
+
+export type VoiceServerUpdate = z.infer<typeof VoiceServerUpdateSchema>;
+
+export const ThreadMemberSchema = z.object({
+  id: z.string().optional(),
+  user_id: z.string().optional(),
+  join_timestamp: z.string(),
+  flags: z.number(),
+  member: GuildMemberSchema.optional(),
+  guild_id: z.string().optional()
+});
+
+export type ThreadMember = z.infer<typeof ThreadMemberSchema>;
+
+export const ThreadSchema = ChannelSchema.extend({
+  thread_metadata: z.object({
+    archived: z.boolean(),
+    auto_archive_duration: z.number(),
+    archive_timestamp: z.string(),
+    locked: z.boolean(),
+    invitable: z.boolean().optional(),
+    create_timestamp: z.string().nullable().optional()
+  }).optional(),
+  member: ThreadMemberSchema.optional(),
+  total_message_sent: z.number().optional(),
+  applied_tags: z.array(z.string()).optional()
+});
+
+export type Thread = z.infer<typeof ThreadSchema>;
+
+export const ThreadListSyncSchema = z.object({
+  guild_id: z.string(),
+  channel_ids: z.array(z.string()).optional(),
+  threads: z.array(ThreadSchema),
+  members: z.array(ThreadMemberSchema)
+});
+
+export type ThreadListSync = z.infer<typeof ThreadListSyncSchema>;
+
+export const ThreadMembersUpdateSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  member_count: z.number(),
+  added_members: z.array(ThreadMemberSchema).optional(),
+  removed_member_ids: z.array(z.string()).optional()
+});
+
+export type ThreadMembersUpdate = z.infer<typeof ThreadMembersUpdateSchema>;
+
+export const StageInstanceSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  channel_id: z.string(),
+  topic: z.string(),
+  privacy_level: z.number(),
+  discoverable_disabled: z.boolean().optional(),
+  guild_scheduled_event_id: z.string().nullable().optional()
+});
+
+export type StageInstance = z.infer<typeof StageInstanceSchema>;
+
+export const GuildScheduledEventSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  channel_id: z.string().nullable().optional(),
+  creator_id: z.string().nullable().optional(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  scheduled_start_time: z.string(),
+  scheduled_end_time: z.string().nullable().optional(),
+  privacy_level: z.number(),
+  status: z.number(),
+  entity_type: z.number(),
+  entity_id: z.string().nullable().optional(),
+  entity_metadata: z.object({ location: z.string().optional() }).nullable().optional(),
+  creator: UserSchema.optional(),
+  user_count: z.number().optional(),
+  image: z.string().nullable().optional(),
+  recurrence_rule: z.unknown().optional()
+});
+
+export type GuildScheduledEvent = z.infer<typeof GuildScheduledEventSchema>;
+
+export const GuildScheduledEventUserSchema = z.object({
+  guild_scheduled_event_id: z.string(),
+  user_id: z.string(),
+  guild_id: z.string()
+});
+
+export type GuildScheduledEventUser = z.infer<typeof GuildScheduledEventUserSchema>;
+
+export const SoundboardSoundSchema = z.object({
+  name: z.string(),
+  sound_id: z.string(),
+  volume: z.number(),
+  emoji_id: z.string().nullable().optional(),
+  emoji_name: z.string().nullable().optional(),
+  guild_id: z.string().optional(),
+  available: z.boolean(),
+  user: UserSchema.optional()
+});
+
+export type SoundboardSound = z.infer<typeof SoundboardSoundSchema>;
+
+export const GuildSoundboardSoundDeleteSchema = z.object({
+  sound_id: z.string(),
+  guild_id: z.string()
+});
+
+export type GuildSoundboardSoundDelete = z.infer<typeof GuildSoundboardSoundDeleteSchema>;
+
+export const SoundboardSoundsSchema = z.object({
+  soundboard_sounds: z.array(SoundboardSoundSchema),
+  guild_id: z.string()
+});
+
+export type SoundboardSounds = z.infer<typeof SoundboardSoundsSchema>;
+
+export const UnavailableGuildSchema = z.object({
+  id: z.string(),
+  unavailable: z.boolean().optional()
+});
+
+export type UnavailableGuild = z.infer<typeof UnavailableGuildSchema>;
+
+export const GuildSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  icon: z.string().nullable().optional(),
+  splash: z.string().nullable().optional(),
+  discovery_splash: z.string().nullable().optional(),
+  owner_id: z.string(),
+  afk_channel_id: z.string().nullable().optional(),
+  afk_timeout: z.number().optional(),
+  verification_level: z.number().optional(),
+  default_message_notifications: z.number().optional(),
+  explicit_content_filter: z.number().optional(),
+  roles: z.array(RoleSchema),
+  emojis: z.array(EmojiSchema),
+  features: z.array(z.string()),
+  mfa_level: z.number().optional(),
+  system_channel_id: z.string().nullable().optional(),
+  rules_channel_id: z.string().nullable().optional(),
+  max_members: z.number().optional(),
+  vanity_url_code: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  banner: z.string().nullable().optional(),
+  premium_tier: z.number().optional(),
+  premium_subscription_count: z.number().optional(),
+  preferred_locale: z.string().optional(),
+  nsfw_level: z.number().optional(),
+  stickers: z.array(StickerSchema).optional()
+});
+
+export type Guild = z.infer<typeof GuildSchema>;
+
+export const AvailableGuildCreateSchema = GuildSchema.extend({
+  joined_at: z.string().optional(),
+  large: z.boolean().optional(),
+  unavailable: z.boolean().optional(),
+  member_count: z.number().optional(),
+  voice_states: z.array(VoiceStateSchema).optional(),
+  members: z.array(GuildMemberSchema).optional(),
+  channels: z.array(ChannelSchema).optional(),
+  threads: z.array(ThreadSchema).optional(),
+  presences: z.array(PresenceUpdateSchema.partial().extend({ user: z.object({ id: z.string() }) })).optional(),
+  stage_instances: z.array(StageInstanceSchema).optional(),
+  guild_scheduled_events: z.array(GuildScheduledEventSchema).optional(),
+  soundboard_sounds: z.array(SoundboardSoundSchema).optional()
+});
+
+export type AvailableGuildCreate = z.infer<typeof AvailableGuildCreateSchema>;
+
+/**
+ * During an outage GUILD_CREATE carries only `{ id, unavailable: true }`.
+ */
+export const GuildCreateSchema = z.union([
+  AvailableGuildCreateSchema,
+  UnavailableGuildSchema.extend({ unavailable: z.literal(true) })
+]);
+
+export type GuildCreate = z.infer<typeof GuildCreateSchema>;
+
+export const GuildBanSchema = z.object({
+  guild_id: z.string(),
+  user: UserSchema
+});
+
+export type GuildBan = z.infer<typeof GuildBanSchema>;
+
+export const GuildEmojisUpdateSchema = z.object({
+  guild_id: z.string(),
+  emojis: z.array(EmojiSchema)
+});
+
+export type GuildEmojisUpdate = z.infer<typeof GuildEmojisUpdateSchema>;
+
+export const GuildStickersUpdateSchema = z.object({
+  guild_id: z.string(),
+  stickers: z.array(StickerSchema)
+});
+
+export type GuildStickersUpdate = z.infer<typeof GuildStickersUpdateSchema>;
+
+export const GuildIntegrationsUpdateSchema = z.object({
+  guild_id: z.string()
+});
+
+export type GuildIntegrationsUpdate = z.infer<typeof GuildIntegrationsUpdateSchema>;
+
+export const GuildMemberAddSchema = GuildMemberSchema.extend({
+  guild_id: z.string()
+});
+
+export type GuildMemberAdd = z.infer<typeof GuildMemberAddSchema>;
+
+export const GuildMemberRemoveSchema = z.object({
+  guild_id: z.string(),
+  user: UserSchema
+});
+
+export type GuildMemberRemove = z.infer<typeof GuildMemberRemoveSchema>;
+
+export const GuildMemberUpdateSchema = GuildMemberSchema.extend({
+  guild_id: z.string(),
+  user: UserSchema
+});
+
+export type GuildMemberUpdate = z.infer<typeof GuildMemberUpdateSchema>;
+
+export const GuildRoleUpdateSchema = z.object({
+  guild_id: z.string(),
+  role: RoleSchema
+});
+
+export type GuildRoleUpdate = z.infer<typeof GuildRoleUpdateSchema>;
+
+export const GuildRoleDeleteSchema = z.object({
+  guild_id: z.string(),
+  role_id: z.string()
+});
+
+export type GuildRoleDelete = z.infer<typeof GuildRoleDeleteSchema>;
+
+export const AuditLogEntrySchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  target_id: z.string().nullable(),
+  user_id: z.string().nullable(),
+  action_type: z.number(),
+  changes: z.array(z.object({
+    key: z.string(),
+    new_value: z.unknown().optional(),
+    old_value: z.unknown().optional()
+  })).optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+  reason: z.string().optional()
+});
+
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
+
+export const IntegrationSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  enabled: z.boolean(),
+  account: z.object({ id: z.string(), name: z.string() }),
+  user: UserSchema.optional(),
+  application: z.record(z.string(), z.unknown()).optional(),
+  scopes: z.array(z.string()).optional()
+});
+
+export type Integration = z.infer<typeof IntegrationSchema>;
+
+export const IntegrationDeleteSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  application_id: z.string().optional()
+});
+
+export type IntegrationDelete = z.infer<typeof IntegrationDeleteSchema>;
+
+export const InviteCreateSchema = z.object({
+  channel_id: z.string(),
+  code: z.string(),
+  created_at: z.string(),
+  guild_id: z.string().optional(),
+  inviter: UserSchema.optional(),
+  max_age: z.number(),
+  max_uses: z.number(),
+  target_type: z.number().optional(),
+  target_user: UserSchema.optional(),
+  target_application: z.record(z.string(), z.unknown()).optional(),
+  temporary: z.boolean(),
+  uses: z.number()
+});
+
+export type InviteCreate = z.infer<typeof InviteCreateSchema>;
+
+export const InviteDeleteSchema = z.object({
+  channel_id: z.string(),
+  guild_id: z.string().optional(),
+  code: z.string()
+});
+
+export type InviteDelete = z.infer<typeof InviteDeleteSchema>;
+
+export const MessageSchema = z.object({
+  id: z.string(),
+  channel_id: z.string(),
+  guild_id: z.string().optional(),
+  author: UserSchema,
+  member: GuildMemberSchema.partial().optional(),
+  content: z.string(),
+  timestamp: z.string(),
+  edited_timestamp: z.string().nullable(),
+  tts: z.boolean(),
+  mention_everyone: z.boolean(),
+  mentions: z.array(UserSchema.extend({ member: GuildMemberSchema.partial().optional() })),
+  mention_roles: z.array(z.string()),
+  mention_channels: z.array(z.unknown()).optional(),
+  attachments: z.array(z.record(z.string(), z.unknown())),
+  embeds: z.array(z.record(z.string(), z.unknown())),
+  reactions: z.array(z.unknown()).optional(),
+  nonce: z.union([z.string(), z.number()]).optional(),
+  pinned: z.boolean(),
+  webhook_id: z.string().optional(),
+  type: z.number(),
+  application_id: z.string().optional(),
+  message_reference: z.record(z.string(), z.unknown()).optional(),
+  flags: z.number().optional(),
+  referenced_message: z.unknown().optional(),
+  thread: ThreadSchema.optional(),
+  components: z.array(z.unknown()).optional(),
+  sticker_items: z.array(z.unknown()).optional(),
+  poll: z.unknown().optional()
+});
+
+export type Message = z.infer<typeof MessageSchema>;
+
+export const MessageUpdateSchema = MessageSchema.partial().extend({
+  id: z.string(),
+  channel_id: z.string()
+});
+
+export type MessageUpdate = z.infer<typeof MessageUpdateSchema>;
+
+export const MessageDeleteSchema = z.object({
+  id: z.string(),
+  channel_id: z.string(),
+  guild_id: z.string().optional()
+});
+
+export type MessageDelete = z.infer<typeof MessageDeleteSchema>;
+
+export const MessageDeleteBulkSchema = z.object({
+  ids: z.array(z.string()),
+  channel_id: z.string(),
+  guild_id: z.string().optional()
+});
+
+export type MessageDeleteBulk = z.infer<typeof MessageDeleteBulkSchema>;
+
+const ReactionEmojiSchema = EmojiSchema.pick({ id: true, name: true, animated: true });
+
+export const MessageReactionAddSchema = z.object({
+  user_id: z.string(),
+  channel_id: z.string(),
+  message_id: z.string(),
+  guild_id: z.string().optional(),
+  member: GuildMemberSchema.optional(),
+  emoji: ReactionEmojiSchema,
+  message_author_id: z.string().optional(),
+  burst: z.boolean().optional(),
+  burst_colors: z.array(z.string()).optional(),
+  type: z.number().optional()
+});
+
+export type MessageReactionAdd = z.infer<typeof MessageReactionAddSchema>;
+
+export const MessageReactionRemoveSchema = z.object({
+  user_id: z.string(),
+  channel_id: z.string(),
+  message_id: z.string(),
+  guild_id: z.string().optional(),
+  emoji: ReactionEmojiSchema,
+  burst: z.boolean().optional(),
+  type: z.number().optional()
+});
+
+export type MessageReactionRemove = z.infer<typeof MessageReactionRemoveSchema>;
+
+export const MessageReactionRemoveAllSchema = z.object({
+  channel_id: z.string(),
+  message_id: z.string(),
+  guild_id: z.string().optional()
+});
+
+export type MessageReactionRemoveAll = z.infer<typeof MessageReactionRemoveAllSchema>;
+
+export const MessageReactionRemoveEmojiSchema = MessageReactionRemoveAllSchema.extend({
+  emoji: ReactionEmojiSchema
+});
+
+export type MessageReactionRemoveEmoji = z.infer<typeof MessageReactionRemoveEmojiSchema>;
+
+export const InteractionSchema = z.object({
+  id: z.string(),
+  application_id: z.string(),
+  type: z.number(),
+  data: z.record(z.string(), z.unknown()).optional(),
+  guild: z.record(z.string(), z.unknown()).optional(),
+  guild_id: z.string().optional(),
+  channel: ChannelSchema.partial().optional(),
+  channel_id: z.string().optional(),
+  member: GuildMemberSchema.optional(),
+  user: UserSchema.optional(),
+  token: z.string(),
+  version: z.number(),
+  message: MessageSchema.optional(),
+  app_permissions: z.string().optional(),
+  locale: z.string().optional(),
+  guild_locale: z.string().optional(),
+  entitlements: z.array(z.unknown()).optional(),
+  authorizing_integration_owners: z.record(z.string(), z.string()).optional(),
+  context: z.number().optional(),
+  attachment_size_limit: z.number().optional()
+});
+
+export type Interaction = z.infer<typeof InteractionSchema>;
+
+export const ApplicationCommandPermissionsUpdateSchema = z.object({
+  id: z.string(),
+  application_id: z.string(),
+  guild_id: z.string(),
+  permissions: z.array(z.object({
+    id: z.string(),
+    type: z.number(),
+    permission: z.boolean()
+  }))
+});
+
+export type ApplicationCommandPermissionsUpdate = z.infer<typeof ApplicationCommandPermissionsUpdateSchema>;
+
+export const AutoModerationRuleSchema = z.object({
+  id: z.string(),
+  guild_id: z.string(),
+  name: z.string(),
+  creator_id: z.string(),
+  event_type: z.number(),
+  trigger_type: z.number(),
+  trigger_metadata: z.record(z.string(), z.unknown()),
+  actions: z.array(z.object({
+    type: z.number(),
+    metadata: z.record(z.string(), z.unknown()).optional()
+  })),
+  enabled: z.boolean(),
+  exempt_roles: z.array(z.string()),
+  exempt_channels: z.array(z.string())
+});
+
+export type AutoModerationRule = z.infer<typeof AutoModerationRuleSchema>;
+
+export const AutoModerationActionExecutionSchema = z.object({
+  guild_id: z.string(),
+  action: z.object({
+    type: z.number(),
+    metadata: z.record(z.string(), z.unknown()).optional()
+  }),
+  rule_id: z.string(),
+  rule_trigger_type: z.number(),
+  user_id: z.string(),
+  channel_id: z.string().optional(),
+  message_id: z.string().optional(),
+  alert_system_message_id: z.string().optional(),
+  content: z.string(),
+  matched_keyword: z.string().nullable(),
+  matched_content: z.string().nullable()
+});
+
+export type AutoModerationActionExecution = z.infer<typeof AutoModerationActionExecutionSchema>;
+
+export const EntitlementSchema = z.object({
+  id: z.string(),
+  sku_id: z.string(),
+  application_id: z.string(),
+  user_id: z.string().optional(),
+  type: z.number(),
+  deleted: z.boolean(),
+  starts_at: z.string().nullable().optional(),
+  ends_at: z.string().nullable().optional(),
+  guild_id: z.string().optional(),
+  consumed: z.boolean().optional()
+});
+
+export type Entitlement = z.infer<typeof EntitlementSchema>;
+
+export const SubscriptionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  sku_ids: z.array(z.string()),
+  entitlement_ids: z.array(z.string()),
+  renewal_sku_ids: z.array(z.string()).nullable().optional(),
+  current_period_start: z.string(),
+  current_period_end: z.string(),
+  status: z.number(),
+  canceled_at: z.string().nullable().optional(),
+  country: z.string().optional()
+});
+
+export type Subscription = z.infer<typeof SubscriptionSchema>;
+
+export const RawDispatchSchema = z.object({
+  t: z.string(),
+  d: z.unknown(),
+  s: z.number().nullable()
+});
+
+export type RawDispatch = z.infer<typeof RawDispatchSchema>;
+
+export const GatewayResponseSchema = z.object({
+  url: z.string()
+});
+
+export type GatewayResponse = z.infer<typeof GatewayResponseSchema>;
+
+export const SessionStartLimitSchema = z.object({
+  total: z.number(),
+  remaining: z.number(),
+  reset_after: z.number(),
+  max_concurrency: z.number()
+});
+
+export type SessionStartLimit = z.infer<typeof SessionStartLimitSchema>;
+
+export const GatewayBotResponseSchema = GatewayResponseSchema.extend({
+  shards: z.number(),
+  session_start_limit: SessionStartLimitSchema
+});
+
+export type GatewayBotResponse = z.infer<typeof GatewayBotResponseSchema>;
@@ -1,7 +1,9 @@
-export { DiscordRPC } from '@/rpc/DiscordRPC';
-export type { DiscordRPCEvents } from '@/rpc/DiscordRPC';
+export { DiscordRPC, CUSTOM_STATUS_KEY } from '@/rpc/DiscordRPC';
+export type { DiscordRPCEvents, DiscordRPCOptions } from '@/rpc/DiscordRPC';
+export { RpcPool } from '@/rpc/RpcPool';
+export type { RpcPoolAccount, RpcPoolOptions, RpcPoolEvents, RpcPoolFailures } from '@/rpc/RpcPool';
 
-export { ActivityBuilder } from '@/presence/builder';
+export { ActivityBuilder, CustomStatusBuilder, CUSTOM_STATUS_NAME } from '@/presence/builder';
 export type { TimestampMode } from '@/presence/builder';
 
 export { RpcConfigSchema, parseRpcConfig, safeParseRpcConfig } from '@/presence/config';
@@ -13,12 +15,80 @@ export {
   TimestampsSchema,
   AssetsSchema,
   PartySchema,
-  ButtonSchema
+  ButtonSchema,
+  ActivityEmojiSchema,
+  StoredPresenceSchema
 } from '@/presence/models';
-export type { Activity, Presence, Timestamps, Assets, Party, Button, ActivityType, Status } from '@/presence/models';
+export type { Activity, ActivityEmoji, Presence, StoredPresence, Timestamps, Assets, Party, Button, ActivityType, Status } from '@/presence/models';
 
-export { DiscordWebSocket } from '@/gateway/DiscordWebSocket';
-export type { DiscordGatewayEvents } from '@/gateway/DiscordWebSocket';
+export { DiscordWebSocket, DEFAULT_PRESENCE_LIMIT } from '@/gateway/DiscordWebSocket';
+export type {
+  DiscordGatewayEvents,
+  DiscordWebSocketOptions,
+  ValidationMode,
+  SchemaMismatch,
+  SequenceGap,
+  SendLimit,
+  CloseOptions,
+  RequestGuildMembersOptions,
+  FetchGuildMembersOptions,
+  FetchedGuildMembers,
+  JoinVoiceChannelOptions,
+  VoiceConnectionInfo
+} from '@/gateway/DiscordWebSocket';
+
+export { ShardManager, shardIdForGuild, IDENTIFY_SPACING_MS } from '@/gateway/ShardManager';
+export type { ShardManagerOptions, ShardManagerEvents } from '@/gateway/ShardManager';
+export { SendQueue, SendPriority, priorityForOpCode } from '@/gateway/SendQueue';
+export type { SendQueueOptions, SendQueueState } from '@/gateway/SendQueue';
+export {
+  MiddlewarePipeline,
+  inboundLoggingMiddleware,
+  outboundLoggingMiddleware,
+  inboundMetricsMiddleware,
+  outboundMetricsMiddleware,
+  rateLimitMiddleware
+} from '@/gateway/middleware';
+export type {
+  MiddlewareDirection,
+  InboundContext,
+  OutboundContext,
+  GatewayMiddleware,
+  InboundMiddleware,
+  OutboundMiddleware
+} from '@/gateway/middleware';
+export { SessionRecorder, SessionReplayer } from '@/gateway/recording';
+export type { RecordedFrame, RecordedDirection, ReplayOptions, ReplayTarget } from '@/gateway/recording';
+export { WebSocketTransport, createWebSocketTransport, getWebSocketTransportSupport } from '@/gateway/transport';
+export type {
+  GatewayTransport,
+  GatewayTransportFactory,
+  GatewayTransportHandlers,
+  TransportProxy,
+  WebSocketTransportOptions
+} from '@/gateway/transport';
+export { fetchGatewayInfo, IdentifyLimiter, DEFAULT_API_BASE } from '@/gateway/discovery';
+export type { GatewayFetcher, GatewayDiscoveryOptions, GatewayInfo, IdentifyBudgetMode } from '@/gateway/discovery';
+export { TimerHeartbeatScheduler } from '@/gateway/heartbeat';
+export type { HeartbeatScheduler } from '@/gateway/heartbeat';
+export { IntentsBitField, PRIVILEGED_INTENTS, EVENT_INTENTS, describeIntentClose } from '@/gateway/intents';
+export type { IntentName, IntentsResolvable } from '@/gateway/intents';
+export { CLOSE_CODES, classifyCloseCode, exponentialBackoff } from '@/gateway/reconnect';
+export type {
+  BackoffStrategy,
+  CloseAction,
+  CloseCodeInfo,
+  ExponentialBackoffOptions,
+  FatalClose,
+  ReconnectOptions
+} from '@/gateway/reconnect';
+
+export { ZlibStreamInflater } from '@/gateway/compression';
+export type { GatewayCompression } from '@/gateway/compression';
+
+export { JsonCodec, EtfCodec, createCodec } from '@/gateway/codec';
+export type { GatewayCodec, GatewayEncoding, OutgoingPayload } from '@/gateway/codec';
+export { packEtf, unpackEtf } from '@/gateway/etf';
 
 export { OpCode, opCodeFromValue } from '@/gateway/opcodes';
 export type { OpCode as OpCodeType } from '@/gateway/opcodes';
@@ -39,22 +109,145 @@ export {
   WebhooksUpdateSchema,
   MessagePollVoteAddSchema,
   MessagePollVoteRemoveSchema,
-  ChannelSchema
+  ChannelSchema,
+  UserSchema,
+  GuildMemberSchema,
+  RoleSchema,
+  EmojiSchema,
+  StickerSchema,
+  GatewayActivitySchema,
+  ClientStatusSchema,
+  PresenceUpdateSchema,
+  VoiceStateSchema,
+  VoiceServerUpdateSchema,
+  ThreadMemberSchema,
+  ThreadSchema,
+  ThreadListSyncSchema,
+  ThreadMembersUpdateSchema,
+  StageInstanceSchema,
+  GuildScheduledEventSchema,
+  GuildScheduledEventUserSchema,
+  SoundboardSoundSchema,
+  GuildSoundboardSoundDeleteSchema,
+  SoundboardSoundsSchema,
+  UnavailableGuildSchema,
+  GuildSchema,
+  GuildCreateSchema,
+  AvailableGuildCreateSchema,
+  GuildBanSchema,
+  GuildEmojisUpdateSchema,
+  GuildStickersUpdateSchema,
+  GuildIntegrationsUpdateSchema,
+  GuildMemberAddSchema,
+  GuildMemberRemoveSchema,
+  GuildMemberUpdateSchema,
+  GuildRoleUpdateSchema,
+  GuildRoleDeleteSchema,
+  AuditLogEntrySchema,
+  IntegrationSchema,
+  IntegrationDeleteSchema,
+  InviteCreateSchema,
+  InviteDeleteSchema,
+  MessageSchema,
+  MessageUpdateSchema,
+  MessageDeleteSchema,
+  MessageDeleteBulkSchema,
+  MessageReactionAddSchema,
+  MessageReactionRemoveSchema,
+  MessageReactionRemoveAllSchema,
+  MessageReactionRemoveEmojiSchema,
+  InteractionSchema,
+  ApplicationCommandPermissionsUpdateSchema,
+  AutoModerationRuleSchema,
+  AutoModerationActionExecutionSchema,
+  EntitlementSchema,
+  SubscriptionSchema,
+  RawDispatchSchema,
+  GatewayResponseSchema,
+  SessionStartLimitSchema,
+  GatewayBotResponseSchema
 } from '@/gateway/types';
 import type { RateLimited } from "@paws/shared-types";
 export type { RateLimited }
 export type { GatewayPayload, Identify, Resume, Heartbeat, Ready, IdentifyProperties, RequestSoundboardSounds, RequestGuildMembers, VoiceStateUpdate, GuildMemberChunk, GatewayIntentsType, Intent, ChannelPinsUpdate, TypingStart, VoiceChannelEffectSend, WebhooksUpdate, MessagePollVoteAdd, MessagePollVoteRemove, Channel } from '@/gateway/types';
+export type {
+  User,
+  GuildMember,
+  Role,
+  Emoji,
+  Sticker,
+  GatewayActivity,
+  ClientStatus,
+  PresenceUpdate,
+  VoiceState,
+  VoiceServerUpdate,
+  ThreadMember,
+  Thread,
+  ThreadListSync,
+  ThreadMembersUpdate,
+  StageInstance,
+  GuildScheduledEvent,
+  GuildScheduledEventUser,
+  SoundboardSound,
+  GuildSoundboardSoundDelete,
+  SoundboardSounds,
+  UnavailableGuild,
+  Guild,
+  GuildCreate,
+  AvailableGuildCreate,
+  GuildBan,
+  GuildEmojisUpdate,
+  GuildStickersUpdate,
+  GuildIntegrationsUpdate,
+  GuildMemberAdd,
+  GuildMemberRemove,
+  GuildMemberUpdate,
+  GuildRoleUpdate,
+  GuildRoleDelete,
+  AuditLogEntry,
+  Integration,
+  IntegrationDelete,
+  InviteCreate,
+  InviteDelete,
+  Message,
+  MessageUpdate,
+  MessageDelete,
+  MessageDeleteBulk,
+  MessageReactionAdd,
+  MessageReactionRemove,
+  MessageReactionRemoveAll,
+  MessageReactionRemoveEmoji,
+  Interaction,
+  ApplicationCommandPermissionsUpdate,
+  AutoModerationRule,
+  AutoModerationActionExecution,
+  Entitlement,
+  Subscription,
+  RawDispatch,
+  GatewayResponse,
+  SessionStartLimit,
+  GatewayBotResponse
+} from '@/gateway/types';
+
+export { DISPATCH_EVENTS, getDispatchEntry } from '@/gateway/dispatch';
+export type { DispatchEvents, DispatchEventName, DispatchEntry } from '@/gateway/dispatch';
 
 export { GatewayIntents } from '@/gateway/types';
 
+export { GatewayCache } from '@/cache/GatewayCache';
+export type { GatewayCacheOptions, CacheEntity, CachedGuild, CachedMember, CachedRole, CachedPresence } from '@/cache/GatewayCache';
+export { createStore } from '@/cache/stores';
+export type { CachePolicy, CacheStore } from '@/cache/stores';
+
 export { EventEmitter } from '@paws/event-emitter';
-export type { EventCallback } from '@paws/event-emitter';
+export type { EventCallback, AnyEventCallback } from '@paws/event-emitter';
 
 export { JsonConfigStorage, WebSocketConfigStorage, createConfigStorage } from '@/storage/config';
 export type { ConfigStorage } from '@/storage/config';
 
 export { FileSessionStorage, WebSocketSessionStorage, createSessionStorage } from '@/storage/sessionStorage';
-export type { SessionStorage, SessionData } from '@/storage/session';
+export type { SessionStorage, SessionStorageOptions, SessionData, SessionRejection, IdentifyBudget } from '@/storage/session';
+export { IdentifyBudgetSchema, DEFAULT_SESSION_MAX_AGE, checkSession } from '@/storage/session';
 
 export { DebugLogger } from '@paws/debug-logger';
 
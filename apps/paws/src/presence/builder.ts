@@ -1,8 +1,13 @@
-import type { Activity, ActivityType, Timestamps, Assets, Party, Metadata } from './models';
+import type { Activity, ActivityType, Timestamps, Assets, Party, Metadata, ActivityEmoji } from './models';
 import { ActivitySchema } from './models';
 
 export type TimestampMode = 'none' | 'start' | 'end' | 'start-end';
 
+function sanitizeString(value: string | null): string | null {
+  if (!value) return null;
+  return value.length > 128 ? value.substring(0, 128) : value;
+}
+
 export class ActivityBuilder {
   private name: string = '';
   private type: ActivityType = 0;
@@ -123,11 +128,6 @@ export class ActivityBuilder {
     return this;
   }
 
-  private sanitizeString(value: string | null): string | null {
-    if (!value) return null;
-    return value.length > 128 ? value.substring(0, 128) : value;
-  }
-
   build(): Activity {
     const timestamps: Timestamps | null = this.buildTimestamps();
 
@@ -139,8 +139,8 @@ export class ActivityBuilder {
         ? {
             large_image: this.largeImage,
             small_image: this.smallImage,
-            large_text: this.sanitizeString(this.largeText),
-            small_text: this.sanitizeString(this.smallText),
+            large_text: sanitizeString(this.largeText),
+            small_text: sanitizeString(this.smallText),
             large_image_url: this.largeImageUrl,
             small_image_url: this.smallImageUrl
           }
@@ -158,9 +158,9 @@ export class ActivityBuilder {
       type: this.type
     };
 
-    if (this.state !== null) activityData.state = this.sanitizeString(this.state);
-    if (this.details !== null) activityData.details = this.sanitizeString(this.details);
-    if (this.platform !== null) activityData.platform = this.sanitizeString(this.platform);
+    if (this.state !== null) activityData.state = sanitizeString(this.state);
+    if (this.details !== null) activityData.details = sanitizeString(this.details);
+    if (this.platform !== null) activityData.platform = sanitizeString(this.platform);
     if (timestamps !== null) activityData.timestamps = timestamps;
     if (assets !== null) activityData.assets = assets;
     if (this.buttons.length > 0) activityData.buttons = this.buttons;
@@ -198,3 +198,62 @@ export class ActivityBuilder {
     };
   }
 }
+
+export const CUSTOM_STATUS_NAME = 'Custom Status';
+
+/**
+ * Builds a type 4 activity: the text and emoji shown under the user's name.
+ */
+export class CustomStatusBuilder {
+  private text: string | null = null;
+  private emoji: ActivityEmoji | null = null;
+  private expiresAt: number | null = null;
+
+  setText(text: string | null): this {
+    this.text = text;
+    return this;
+  }
+
+  /**
+   * A unicode emoji such as `'🐾'`, or a custom emoji object.
+   */
+  setEmoji(emoji: string | ActivityEmoji | null): this {
+    this.emoji = typeof emoji === 'string' ? { name: emoji } : emoji;
+    return this;
+  }
+
+  setCustomEmoji(id: string, name: string, animated = false): this {
+    this.emoji = { id, name, animated };
+    return this;
+  }
+
+  /** Epoch milliseconds after which `DiscordRPC` clears the status, `null` to keep it. */
+  setExpiresAt(timestamp: number | null): this {
+    this.expiresAt = timestamp;
+    return this;
+  }
+
+  setExpiresIn(milliseconds: number): this {
+    return this.setExpiresAt(Date.now() + milliseconds);
+  }
+
+  getExpiresAt(): number | null {
+    return this.expiresAt;
+  }
+
+  build(): Activity {
+    if (!this.text && !this.emoji) {
+      throw new Error('A custom status needs text or an emoji');
+    }
+
+    const activityData: Record<string, unknown> = {
+      name: CUSTOM_STATUS_NAME,
+      type: 4
+    };
+
+    if (this.text) activityData.state = sanitizeString(this.text);
+    if (this.emoji !== null) activityData.emoji = this.emoji;
+
+    return ActivitySchema.parse(activityData);
+  }
+}
@@ -50,6 +50,17 @@ export const MetadataSchema = z.object({
 });
 export type Metadata = z.infer<typeof MetadataSchema>;
 
+/**
+ * A unicode emoji only has `name`; custom emoji also need `id`.
+ */
+export const ActivityEmojiSchema = z.object({
+  name: z.string(),
+  id: z.string().nullable().optional(),
+  animated: z.boolean().optional()
+});
+
+export type ActivityEmoji = z.infer<typeof ActivityEmojiSchema>;
+
 export const ActivityTypeSchema = z.enum(['0', '1', '2', '3', '4', '5']).transform(Number);
 
 export type ActivityType = 0 | 1 | 2 | 3 | 4 | 5;
@@ -66,7 +77,8 @@ export const ActivitySchema = z.object({
   metadata: MetadataSchema.nullable().optional(),
   application_id: z.string().nullable().optional(),
   url: z.string().url().nullable().optional(),
-  party: PartySchema.nullable().optional()
+  party: PartySchema.nullable().optional(),
+  emoji: ActivityEmojiSchema.nullable().optional()
 });
 
 export type Activity = z.infer<typeof ActivitySchema>;
@@ -83,3 +95,16 @@ export const PresenceSchema = z.object({
 });
 
 export type Presence = z.infer<typeof PresenceSchema>;
+
+/**
+ * The presence a client wants, as activity slots plus status, kept so it can
+ * be re-applied after a restart.
+ */
+export const StoredPresenceSchema = z.object({
+  status: StatusSchema,
+  activities: z.array(z.tuple([z.string(), ActivitySchema])),
+  /** Epoch milliseconds at which the custom status slot is cleared. */
+  customStatusExpiresAt: z.number().nullable().optional()
+});
+
+export type StoredPresence = z.infer<typeof StoredPresenceSchema>;
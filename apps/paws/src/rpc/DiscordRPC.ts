@@ -1,54 +1,117 @@
-import { DiscordWebSocket } from '@/gateway/DiscordWebSocket';
-import type { Presence, Status } from '@/presence/models';
-import type {
-  Ready,
-  ChannelPinsUpdate,
-  TypingStart,
-  VoiceChannelEffectSend,
-  WebhooksUpdate,
-  MessagePollVoteAdd,
-  MessagePollVoteRemove,
-  Channel
-} from '@/gateway/types';
-import { ActivityBuilder } from '@/presence/builder';
+import {
+  DiscordWebSocket,
+  type CloseOptions,
+  type DiscordWebSocketOptions,
+  type SchemaMismatch,
+  type SequenceGap
+} from '@/gateway/DiscordWebSocket';
+import type { FatalClose } from '@/gateway/reconnect';
+import type { InboundMiddleware, OutboundMiddleware } from '@/gateway/middleware';
+import type { Activity, Presence, Status, StoredPresence } from '@/presence/models';
+import type { Ready } from '@/gateway/types';
+import { DISPATCH_EVENTS, type DispatchEvents } from '@/gateway/dispatch';
+import { ActivityBuilder, CustomStatusBuilder } from '@/presence/builder';
 import { EventEmitter } from '@paws/event-emitter';
 import { DEFAULT_APPLICATION_ID } from '@/constants';
+import { OpCode } from '@/gateway/opcodes';
 import type { Identify } from '@/gateway/types';
+import type { SessionStorage } from '@/storage/session';
+import type { ConfigStorage } from '@/storage/config';
+import { createHash } from 'node:crypto';
 
-export interface DiscordRPCEvents extends Record<string, unknown> {
+export interface DiscordRPCEvents extends DispatchEvents, Record<string, unknown> {
   ready: Ready;
   resumed: void;
   error: Error;
   disconnected: { code: number; reason: string };
   rateLimited: { opcode: number; retryAfter: number; meta?: unknown };
   sessionRestored: boolean;
-  channelPinsUpdate: ChannelPinsUpdate;
-  typingStart: TypingStart;
-  voiceChannelEffectSend: VoiceChannelEffectSend;
-  webhooksUpdate: WebhooksUpdate;
-  messagePollVoteAdd: MessagePollVoteAdd;
-  messagePollVoteRemove: MessagePollVoteRemove;
-  guildMemberChunk: unknown;
-  channelCreate: Channel;
-  channelUpdate: Channel;
-  channelDelete: Channel;
+  schemaMismatch: SchemaMismatch;
+  fatalClose: FatalClose;
+  sequenceGap: SequenceGap;
+}
+
+export interface DiscordRPCOptions {
+  sessionStorage?: SessionStorage;
+  gateway?: DiscordWebSocketOptions;
+  /**
+   * Activity and status changes made within this many milliseconds are merged
+   * into one presence update. While presence updates are rate limited the
+   * window stretches until they are allowed again. Defaults to 50.
+   */
+  activityDebounce?: number;
+  /** Persists the desired presence so it is restored on the next `connect()`, even in a new process. */
+  configStorage?: ConfigStorage;
+  /** Name the presence is stored under. Defaults to a hash of the token. */
+  presenceKey?: string;
+}
+
+/** Activity slot used by `setCustomStatus()`. */
+export const CUSTOM_STATUS_KEY = 'custom-status';
+
+/** Longest delay `setTimeout` accepts, longer expiries are re-armed in steps. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/** `since` changes on every update, so it is left out of the comparison. */
+function isSamePresence(a: Presence, b: Presence): boolean {
+  return a.status === b.status
+    && a.afk === b.afk
+    && JSON.stringify(a.activities ?? null) === JSON.stringify(b.activities ?? null);
+}
+
+interface PendingPresence {
+  timer: ReturnType<typeof setTimeout>;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
 export class DiscordRPC extends EventEmitter<DiscordRPCEvents> {
   private ws: DiscordWebSocket;
+  /** Last presence actually sent. */
   private currentActivity: Presence | null = null;
+  /** Activity slots in display order, keyed by the caller. */
+  private activities = new Map<string, Activity>();
+  private pendingPresence: PendingPresence | null = null;
+  private activityDebounce: number;
   private status: Status = 'online';
   private applicationId: string;
-
-  constructor(token: string, applicationId?: string, IdentifyOverrides?: Omit<Identify, 'token'>) {
+  /** Set once the user asked for any presence, including a cleared one. */
+  private hasDesiredPresence = false;
+  private presenceRestored = false;
+  private presenceWrite: Promise<void> = Promise.resolve();
+  private configStorage: ConfigStorage | null;
+  private presenceKey: string;
+  private customStatusExpiresAt: number | null = null;
+  private customStatusTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    token: string,
+    applicationId?: string,
+    IdentifyOverrides?: Omit<Identify, 'token'>,
+    options: DiscordRPCOptions = {}
+  ) {
     super();
     this.applicationId = applicationId ?? DEFAULT_APPLICATION_ID;
-    this.ws = new DiscordWebSocket(token, IdentifyOverrides);
+    this.activityDebounce = options.activityDebounce ?? 50;
+    this.configStorage = options.configStorage ?? null;
+    this.presenceKey = options.presenceKey ?? createHash('sha256').update(token).digest('hex').substring(0, 16);
+    this.ws = new DiscordWebSocket(token, IdentifyOverrides, options.sessionStorage, options.gateway);
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     this.ws.on('ready', (ready) => {
+      // A new session starts without our presence, so send it again even if unchanged.
+      // A replayed READY has no session to send it to.
+      if (!this.ws.isReplaying()) {
+        this.currentActivity = null;
+        if (this.hasDesiredPresence) {
+          this.schedulePresence().catch((error) => {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+          });
+        }
+      }
       this.emit('ready', ready);
     });
 
@@ -72,93 +135,244 @@ export class DiscordRPC extends EventEmitter<DiscordRPCEvents> {
       this.emit('sessionRestored', restored);
     });
 
-    this.ws.on('channelPinsUpdate', (data) => {
-      this.emit('channelPinsUpdate', data);
+    this.ws.on('schemaMismatch', (mismatch) => {
+      this.emit('schemaMismatch', mismatch);
     });
 
-    this.ws.on('typingStart', (data) => {
-      this.emit('typingStart', data);
+    this.ws.on('fatalClose', (fatal) => {
+      this.emit('fatalClose', fatal);
     });
 
-    this.ws.on('voiceChannelEffectSend', (data) => {
-      this.emit('voiceChannelEffectSend', data);
+    this.ws.on('sequenceGap', (gap) => {
+      this.emit('sequenceGap', gap);
     });
 
-    this.ws.on('webhooksUpdate', (data) => {
-      this.emit('webhooksUpdate', data);
-    });
+    for (const { event } of Object.values(DISPATCH_EVENTS)) {
+      if (!this.ws.canReceive(event)) continue;
+      this.ws.on(event, (data) => {
+        this.emit(event, data as never);
+      });
+    }
 
-    this.ws.on('messagePollVoteAdd', (data) => {
-      this.emit('messagePollVoteAdd', data);
+    this.ws.on('dispatch', (data) => {
+      this.emit('dispatch', data);
     });
+  }
 
-    this.ws.on('messagePollVoteRemove', (data) => {
-      this.emit('messagePollVoteRemove', data);
-    });
+  async connect(): Promise<void> {
+    await this.restorePresence();
+    // disconnect() stops the expiry timer, a custom status kept across it needs it back.
+    if (!this.customStatusTimer && this.customStatusExpiresAt !== null && this.activities.has(CUSTOM_STATUS_KEY)) {
+      this.scheduleCustomStatusExpiry(this.customStatusExpiresAt);
+    }
+    await this.ws.connect();
+  }
 
-    this.ws.on('guildMemberChunk', (data) => {
-      this.emit('guildMemberChunk', data);
-    });
+  /**
+   * Loads the stored presence once. Changes made before the first connect win over it.
+   */
+  private async restorePresence(): Promise<void> {
+    if (this.presenceRestored || !this.configStorage?.loadPresence) return;
+    this.presenceRestored = true;
+
+    const stored = await this.configStorage.loadPresence(this.presenceKey);
+    if (!stored || this.hasDesiredPresence) return;
+
+    this.activities = new Map(stored.activities);
+    this.status = stored.status;
+    this.hasDesiredPresence = true;
+
+    const expiresAt = stored.customStatusExpiresAt ?? null;
+    if (expiresAt !== null && this.activities.has(CUSTOM_STATUS_KEY)) {
+      if (expiresAt <= Date.now()) {
+        this.activities.delete(CUSTOM_STATUS_KEY);
+      } else {
+        this.scheduleCustomStatusExpiry(expiresAt);
+      }
+    }
+    this.ws.setIdentifyPresence(this.buildPresence());
+  }
 
-    this.ws.on('channelCreate', (data) => {
-      this.emit('channelCreate', data);
-    });
+  /**
+   * Replaces every activity slot with this single activity.
+   */
+  setActivity(builder: ActivityBuilder): Promise<void> {
+    return this.setActivities([builder]);
+  }
 
-    this.ws.on('channelUpdate', (data) => {
-      this.emit('channelUpdate', data);
-    });
+  updateActivity(builder: ActivityBuilder): Promise<void> {
+    return this.setActivity(builder);
+  }
 
-    this.ws.on('channelDelete', (data) => {
-      this.emit('channelDelete', data);
-    });
+  /**
+   * Replaces every activity slot. Slots are keyed by their index, as strings.
+   */
+  setActivities(builders: ActivityBuilder[]): Promise<void> {
+    this.activities.clear();
+    builders.forEach((builder, index) => this.activities.set(String(index), this.buildActivity(builder)));
+    return this.presenceChanged();
   }
 
-  async connect(): Promise<void> {
-    await this.ws.connect();
+  /**
+   * Adds or replaces the activity in slot `key`. New slots are shown after the existing ones.
+   */
+  addActivity(key: string, builder: ActivityBuilder): Promise<void> {
+    this.activities.set(key, this.buildActivity(builder));
+    return this.presenceChanged();
   }
 
-  async setActivity(builder: ActivityBuilder): Promise<void> {
+  removeActivity(key: string): Promise<void> {
+    if (!this.activities.delete(key)) {
+      return this.pendingPresence?.promise ?? Promise.resolve();
+    }
+    return this.presenceChanged();
+  }
+
+  /**
+   * Shows the status in its own slot, next to any other activities. It is
+   * removed again once its expiry passes.
+   */
+  setCustomStatus(builder: CustomStatusBuilder): Promise<void> {
+    const expiresAt = builder.getExpiresAt();
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      return this.clearCustomStatus();
+    }
+
+    this.activities.set(CUSTOM_STATUS_KEY, builder.build());
+    this.scheduleCustomStatusExpiry(expiresAt);
+    return this.presenceChanged();
+  }
+
+  clearCustomStatus(): Promise<void> {
+    this.scheduleCustomStatusExpiry(null);
+    return this.removeActivity(CUSTOM_STATUS_KEY);
+  }
+
+  private scheduleCustomStatusExpiry(expiresAt: number | null): void {
+    if (this.customStatusTimer) {
+      clearTimeout(this.customStatusTimer);
+      this.customStatusTimer = null;
+    }
+    this.customStatusExpiresAt = expiresAt;
+    if (expiresAt === null) return;
+
+    const delay = Math.min(Math.max(0, expiresAt - Date.now()), MAX_TIMER_DELAY);
+    this.customStatusTimer = setTimeout(() => {
+      this.customStatusTimer = null;
+      if (Date.now() < expiresAt) {
+        this.scheduleCustomStatusExpiry(expiresAt);
+        return;
+      }
+      this.clearCustomStatus().catch((error) => {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      });
+    }, delay);
+    this.customStatusTimer.unref?.();
+  }
+
+  getActivities(): Map<string, Activity> {
+    return new Map(this.activities);
+  }
+
+  clearActivity(): Promise<void> {
+    this.activities.clear();
+    return this.presenceChanged();
+  }
+
+  /**
+   * Settles with the presence send. Before any activity is set nothing is
+   * sent; the status goes out with the next presence.
+   */
+  setStatus(status: Status): Promise<void> {
+    this.status = status;
+    if (!this.hasDesiredPresence) {
+      return Promise.resolve();
+    }
+    return this.presenceChanged();
+  }
+
+  private buildActivity(builder: ActivityBuilder): Activity {
     builder.setApplicationId(this.applicationId);
-    const activity = builder.build();
-    const presence: Presence = {
-      activities: [activity],
-      status: this.status,
-      afk: true,
-      since: Date.now()
-    };
-    this.currentActivity = presence;
-    await this.waitForConnection();
-    this.ws.sendActivity(presence);
+    return builder.build();
+  }
+
+  private buildPresence(): Presence {
+    const activities = [...this.activities.values()];
+    return activities.length > 0
+      ? { activities, status: this.status, afk: true, since: Date.now() }
+      : { activities: null, status: this.status, afk: false, since: null };
   }
 
-  async updateActivity(builder: ActivityBuilder): Promise<void> {
-    await this.setActivity(builder);
+  private presenceChanged(): Promise<void> {
+    this.hasDesiredPresence = true;
+    this.ws.setIdentifyPresence(this.buildPresence());
+    this.persistPresence();
+    return this.schedulePresence();
   }
 
-  async clearActivity(): Promise<void> {
-    const presence: Presence = {
-      activities: null,
+  /**
+   * Writes are chained so an older presence never lands after a newer one.
+   */
+  private persistPresence(): void {
+    const storage = this.configStorage;
+    if (!storage?.savePresence) return;
+
+    const stored: StoredPresence = {
       status: this.status,
-      afk: false,
-      since: null
+      activities: [...this.activities.entries()],
+      customStatusExpiresAt: this.activities.has(CUSTOM_STATUS_KEY) ? this.customStatusExpiresAt : null
     };
-    this.currentActivity = presence;
-    await this.waitForConnection();
-    this.ws.sendActivity(presence);
+    this.presenceWrite = this.presenceWrite
+      .then(() => storage.savePresence?.(this.presenceKey, stored))
+      .catch((error) => {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      });
   }
 
-  setStatus(status: Status): this {
-    this.status = status;
-    if (this.currentActivity) {
-      this.currentActivity.status = status;
-      this.ws.sendActivity(this.currentActivity);
+  /**
+   * Every change inside the debounce window settles with the same send.
+   */
+  private schedulePresence(): Promise<void> {
+    if (this.pendingPresence) {
+      return this.pendingPresence.promise;
     }
-    return this;
+
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const timer = setTimeout(() => this.flushPresence(), this.activityDebounce);
+    this.pendingPresence = { timer, promise, resolve, reject };
+    return promise;
   }
 
-  private async waitForConnection(): Promise<void> {
-    while (!this.ws.isReady()) {
-      await new Promise(resolve => setTimeout(resolve, 10));
+  private async flushPresence(): Promise<void> {
+    const pending = this.pendingPresence;
+    if (!pending) return;
+
+    // Keep collecting changes until presence updates are allowed again.
+    const wait = this.ws.getRateLimitWait(OpCode.PRESENCE_UPDATE);
+    if (wait > 0) {
+      pending.timer = setTimeout(() => this.flushPresence(), wait);
+      return;
+    }
+    this.pendingPresence = null;
+
+    const presence = this.buildPresence();
+
+    if (this.currentActivity && isSamePresence(this.currentActivity, presence)) {
+      pending.resolve();
+      return;
+    }
+
+    try {
+      await this.ws.sendActivity(presence);
+      this.currentActivity = presence;
+      pending.resolve();
+    } catch (error) {
+      pending.reject(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
@@ -178,11 +392,40 @@ export class DiscordRPC extends EventEmitter<DiscordRPCEvents> {
     await this.ws.clearSession();
   }
 
-  disconnect(): void {
-    this.ws.close();
+  use(direction: 'inbound', middleware: InboundMiddleware): this;
+  use(direction: 'outbound', middleware: OutboundMiddleware): this;
+  use(direction: 'inbound' | 'outbound', middleware: InboundMiddleware | OutboundMiddleware): this {
+    if (direction === 'inbound') {
+      this.ws.use(direction, middleware as InboundMiddleware);
+    } else {
+      this.ws.use(direction, middleware as OutboundMiddleware);
+    }
+    return this;
+  }
+
+  /**
+   * Pass `{ resumable: true }` to keep the session for the next `connect()`.
+   * The presence is kept and re-applied after the next READY either way.
+   */
+  async disconnect(options: CloseOptions = {}): Promise<void> {
+    if (this.pendingPresence) {
+      clearTimeout(this.pendingPresence.timer);
+      this.pendingPresence.reject(new Error('Connection closed'));
+      this.pendingPresence = null;
+    }
+    if (this.customStatusTimer) {
+      clearTimeout(this.customStatusTimer);
+      this.customStatusTimer = null;
+    }
+    await this.ws.close(options);
+    // A full close drops every socket listener, ours included.
+    if (!options.resumable) {
+      this.setupEventListeners();
+    }
   }
 
   override on<K extends keyof DiscordRPCEvents>(event: K, callback: (data: DiscordRPCEvents[K]) => void): void {
+    this.ws.warnIfUndeliverable(String(event));
     super.on(event, callback);
   }
 
@@ -0,0 +1,231 @@
+import { createHash } from 'node:crypto';
+import { EventEmitter } from '@paws/event-emitter';
+import { DebugLogger } from '@paws/debug-logger';
+import { ConnectionMonitor, type ConnectionMetrics } from '@paws/connection-monitor';
+import type { CloseOptions, DiscordWebSocketOptions } from '@/gateway/DiscordWebSocket';
+import type { Identify } from '@/gateway/types';
+import type { ActivityBuilder } from '@/presence/builder';
+import type { Status } from '@/presence/models';
+import { DEFAULT_SESSION_PATH, type SessionStorage } from '@/storage/session';
+import { createSessionStorage } from '@/storage/sessionStorage';
+import { DiscordRPC, type DiscordRPCEvents } from './DiscordRPC';
+
+export interface RpcPoolAccount {
+  /** Name used in events and lookups. Defaults to a hash of the token, so tokens never end up in logs. */
+  id?: string;
+  token: string;
+  applicationId?: string;
+  identifyOverrides?: Omit<Identify, 'token'>;
+  /** Merged over the pool's `gateway` options. */
+  gateway?: Omit<DiscordWebSocketOptions, 'logger' | 'connectionMonitor'>;
+}
+
+export interface RpcPoolOptions {
+  /** Shared by every account. Defaults to file storage in `DEFAULT_SESSION_PATH`. */
+  sessionStorage?: SessionStorage;
+  logger?: DebugLogger;
+  connectionMonitor?: ConnectionMonitor;
+  /** Accounts allowed between IDENTIFY and READY at once. Defaults to 1. */
+  maxConcurrentIdentifies?: number;
+  /** Frees an identify slot whose account never reached READY or closed. Defaults to 30 seconds. */
+  identifyTimeout?: number;
+  gateway?: Omit<DiscordWebSocketOptions, 'logger' | 'connectionMonitor'>;
+}
+
+export type RpcPoolEvents = {
+  [K in keyof DiscordRPCEvents]: { accountId: string; data: DiscordRPCEvents[K] };
+} & {
+  accountAdded: { accountId: string };
+  accountRemoved: { accountId: string };
+};
+
+/** Errors of a bulk operation, keyed by account id. Empty when every account succeeded. */
+export type RpcPoolFailures = Map<string, Error>;
+
+interface PoolEntry {
+  rpc: DiscordRPC;
+  forward: (event: keyof DiscordRPCEvents, data: unknown) => void;
+}
+
+/**
+ * Runs many accounts in one process on shared storage, logging and metrics.
+ * Identifies are capped pool-wide, every account event is re-emitted with its
+ * `accountId`.
+ */
+export class RpcPool extends EventEmitter<RpcPoolEvents> {
+  private accounts = new Map<string, PoolEntry>();
+  private identifying = new Map<string, ReturnType<typeof setTimeout>>();
+  private identifyWaiters: { accountId: string; wake: () => void }[] = [];
+  private sessionStorage: SessionStorage;
+  private logger: DebugLogger;
+  private connectionMonitor: ConnectionMonitor;
+  private maxConcurrentIdentifies: number;
+  private identifyTimeout: number;
+
+  constructor(private options: RpcPoolOptions = {}) {
+    super();
+    this.sessionStorage = options.sessionStorage ?? createSessionStorage('file', DEFAULT_SESSION_PATH);
+    this.logger = options.logger ?? new DebugLogger();
+    this.connectionMonitor = options.connectionMonitor ?? new ConnectionMonitor();
+    this.maxConcurrentIdentifies = Math.max(1, options.maxConcurrentIdentifies ?? 1);
+    this.identifyTimeout = options.identifyTimeout ?? 30000;
+  }
+
+  /**
+   * Registers an account without connecting it.
+   */
+  add(account: RpcPoolAccount): DiscordRPC {
+    const accountId = account.id ?? createHash('sha256').update(account.token).digest('hex').substring(0, 16);
+    if (this.accounts.has(accountId)) {
+      throw new Error(`Account ${accountId} is already in the pool`);
+    }
+
+    const gateway = { ...this.options.gateway, ...account.gateway };
+    const rpc = new DiscordRPC(account.token, account.applicationId, account.identifyOverrides, {
+      sessionStorage: this.sessionStorage,
+      gateway: {
+        ...gateway,
+        logger: this.logger,
+        connectionMonitor: this.connectionMonitor,
+        beforeIdentify: async () => {
+          await gateway.beforeIdentify?.();
+          await this.acquireIdentify(accountId);
+        }
+      }
+    });
+
+    const forward = (event: keyof DiscordRPCEvents, data: unknown) => {
+      if (event === 'ready' || event === 'disconnected' || event === 'fatalClose') {
+        this.releaseIdentify(accountId);
+      }
+      this.emit(event, { accountId, data } as RpcPoolEvents[typeof event]);
+    };
+    rpc.onAny(forward);
+
+    this.accounts.set(accountId, { rpc, forward });
+    this.emit('accountAdded', { accountId });
+    return rpc;
+  }
+
+  /**
+   * Disconnects and forgets an account. Pass `{ resumable: true }` to keep its
+   * session for a later `add()`.
+   */
+  async remove(accountId: string, options: CloseOptions = {}): Promise<boolean> {
+    const entry = this.accounts.get(accountId);
+    if (!entry) return false;
+
+    this.accounts.delete(accountId);
+    this.releaseIdentify(accountId);
+    // Woken without a slot, the waiter sees the account is gone and gives up.
+    const waiting = this.identifyWaiters.filter(waiter => waiter.accountId === accountId);
+    this.identifyWaiters = this.identifyWaiters.filter(waiter => waiter.accountId !== accountId);
+    waiting.forEach(waiter => waiter.wake());
+    entry.rpc.offAny(entry.forward);
+    await entry.rpc.disconnect(options);
+    entry.rpc.removeAllListeners();
+
+    this.emit('accountRemoved', { accountId });
+    return true;
+  }
+
+  get(accountId: string): DiscordRPC | undefined {
+    return this.accounts.get(accountId)?.rpc;
+  }
+
+  has(accountId: string): boolean {
+    return this.accounts.has(accountId);
+  }
+
+  getAccountIds(): string[] {
+    return [...this.accounts.keys()];
+  }
+
+  get size(): number {
+    return this.accounts.size;
+  }
+
+  async connect(accountId: string): Promise<void> {
+    const rpc = this.get(accountId);
+    if (!rpc) {
+      throw new Error(`Account ${accountId} is not in the pool`);
+    }
+    await rpc.connect();
+  }
+
+  connectAll(): Promise<RpcPoolFailures> {
+    return this.broadcast(rpc => rpc.connect());
+  }
+
+  setActivityAll(builder: ActivityBuilder): Promise<RpcPoolFailures> {
+    return this.broadcast(rpc => rpc.setActivity(builder));
+  }
+
+  clearActivityAll(): Promise<RpcPoolFailures> {
+    return this.broadcast(rpc => rpc.clearActivity());
+  }
+
+  setStatusAll(status: Status): Promise<RpcPoolFailures> {
+    return this.broadcast(rpc => rpc.setStatus(status));
+  }
+
+  /**
+   * Runs `action` for every account at once. One account failing does not stop the others.
+   */
+  async broadcast(action: (rpc: DiscordRPC, accountId: string) => Promise<void>): Promise<RpcPoolFailures> {
+    const failures: RpcPoolFailures = new Map();
+    await Promise.all([...this.accounts.entries()].map(async ([accountId, { rpc }]) => {
+      try {
+        await action(rpc, accountId);
+      } catch (error) {
+        failures.set(accountId, error instanceof Error ? error : new Error(String(error)));
+      }
+    }));
+    return failures;
+  }
+
+  getConnectionMetrics(): Readonly<ConnectionMetrics> {
+    return this.connectionMonitor.getMetrics();
+  }
+
+  getLogger(): DebugLogger {
+    return this.logger;
+  }
+
+  /**
+   * Removes every account. With `resumable` their sessions stay in storage.
+   */
+  async close(options: CloseOptions = {}): Promise<void> {
+    await Promise.all(this.getAccountIds().map(accountId => this.remove(accountId, options)));
+    this.identifyWaiters.splice(0).forEach(waiter => waiter.wake());
+  }
+
+  private async acquireIdentify(accountId: string): Promise<void> {
+    // A re-identify replaces the slot the account may still hold.
+    this.releaseIdentify(accountId);
+
+    while (this.identifying.size >= this.maxConcurrentIdentifies) {
+      await new Promise<void>(resolve => this.identifyWaiters.push({ accountId, wake: resolve }));
+      if (!this.accounts.has(accountId)) {
+        // Hand a wake-up meant for a free slot on to the next account in line.
+        if (this.identifying.size < this.maxConcurrentIdentifies) {
+          this.identifyWaiters.shift()?.wake();
+        }
+        throw new Error(`Account ${accountId} was removed from the pool`);
+      }
+    }
+
+    const timer = setTimeout(() => this.releaseIdentify(accountId), this.identifyTimeout);
+    timer.unref?.();
+    this.identifying.set(accountId, timer);
+  }
+
+  private releaseIdentify(accountId: string): void {
+    const timer = this.identifying.get(accountId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this.identifying.delete(accountId);
+    this.identifyWaiters.shift()?.wake();
+  }
+}
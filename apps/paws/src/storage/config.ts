@@ -1,5 +1,6 @@
 import type { RpcConfig } from '../presence/config';
 import { parseRpcConfig } from '../presence/config';
+import { StoredPresenceSchema, type StoredPresence } from '../presence/models';
 import { mkdirSync, readdirSync, unlinkSync } from 'node:fs';
 
 export interface ConfigStorage {
@@ -7,6 +8,11 @@ export interface ConfigStorage {
   load(name: string): Promise<RpcConfig | null>;
   list(): Promise<string[]>;
   delete(name: string): Promise<void>;
+  /**
+   * Optional, lets `DiscordRPC` restore the desired presence after a restart.
+   */
+  savePresence?(name: string, presence: StoredPresence): Promise<void>;
+  loadPresence?(name: string): Promise<StoredPresence | null>;
 }
 
 export class JsonConfigStorage implements ConfigStorage {
@@ -46,7 +52,7 @@ export class JsonConfigStorage implements ConfigStorage {
     try {
       const entries = readdirSync(this.basePath, { withFileTypes: true });
       return entries
-        .filter(entry => entry.isFile() && entry.name.endsWith('.json'))
+        .filter(entry => entry.isFile() && entry.name.endsWith('.json') && !entry.name.endsWith('.presence.json'))
         .map(entry => entry.name.replace(/\.json$/, ''));
     } catch (error) {
       return [];
@@ -61,10 +67,25 @@ export class JsonConfigStorage implements ConfigStorage {
       // File doesn't exist, ignore
     }
   }
+
+  async savePresence(name: string, presence: StoredPresence): Promise<void> {
+    this.ensureDirectory();
+    await Bun.write(`${this.basePath}/${name}.presence.json`, JSON.stringify(StoredPresenceSchema.parse(presence), null, 2));
+  }
+
+  async loadPresence(name: string): Promise<StoredPresence | null> {
+    try {
+      const file = Bun.file(`${this.basePath}/${name}.presence.json`);
+      return StoredPresenceSchema.parse(JSON.parse(await file.text()));
+    } catch (error) {
+      return null;
+    }
+  }
 }
 
 export class WebSocketConfigStorage implements ConfigStorage {
   private configs: Map<string, RpcConfig> = new Map();
+  private presences: Map<string, StoredPresence> = new Map();
 
   constructor() { }
 
@@ -83,6 +104,14 @@ export class WebSocketConfigStorage implements ConfigStorage {
   async delete(name: string): Promise<void> {
     this.configs.delete(name);
   }
+
+  async savePresence(name: string, presence: StoredPresence): Promise<void> {
+    this.presences.set(name, presence);
+  }
+
+  async loadPresence(name: string): Promise<StoredPresence | null> {
+    return this.presences.get(name) ?? null;
+  }
 }
 
 export function createConfigStorage(type: 'json' | 'websocket' = 'json', basePath?: string): ConfigStorage {
@@ -11,12 +11,75 @@ export const SessionDataSchema = z.object({
 
 export type SessionData = z.infer<typeof SessionDataSchema>;
 
+export const IdentifyBudgetSchema = z.object({
+  total: z.number(),
+  remaining: z.number(),
+  /** Epoch milliseconds at which `remaining` goes back to `total`. */
+  resetAt: z.number(),
+  maxConcurrency: z.number()
+});
+
+export type IdentifyBudget = z.infer<typeof IdentifyBudgetSchema>;
+
+export interface SessionStorageOptions {
+  /**
+   * Sessions whose `timestamp` is older than this many milliseconds are
+   * treated as missing and removed on load. Defaults to `DEFAULT_SESSION_MAX_AGE`,
+   * `Infinity` disables expiry.
+   */
+  maxAge?: number;
+  /** Minimum milliseconds between sequence writes made by `updateSequence`. */
+  sequenceFlushInterval?: number;
+}
+
+/**
+ * Discord keeps a disconnected session resumable for minutes, not days; past
+ * this a resume only costs an INVALID_SESSION round trip.
+ */
+export const DEFAULT_SESSION_MAX_AGE = 60 * 60 * 1000;
+
+export type SessionRejection = 'expired' | 'user-mismatch';
+
+/**
+ * Returns why a stored session should not be resumed, or null when it is usable.
+ */
+export function checkSession(
+  session: SessionData,
+  options: { maxAge?: number; userId?: string; now?: number } = {}
+): SessionRejection | null {
+  const now = options.now ?? Date.now();
+  if (options.maxAge !== undefined && now - session.timestamp > options.maxAge) {
+    return 'expired';
+  }
+  if (options.userId !== undefined && session.userId !== undefined && session.userId !== options.userId) {
+    return 'user-mismatch';
+  }
+  return null;
+}
+
 export interface SessionStorage {
   save(token: string, session: SessionData): Promise<void>;
+  /** Resolves to null for missing and expired sessions. */
   load(token: string): Promise<SessionData | null>;
   delete(token: string): Promise<void>;
   exists(token: string): Promise<boolean>;
   hasSession(token: string): Promise<boolean>;
+  /** Optional. Every stored session, expired ones included. */
+  listSessions?(): Promise<SessionData[]>;
+  /** Optional. Removes sessions older than `maxAge` and resolves to how many were removed. */
+  prune?(maxAge?: number): Promise<number>;
+  /**
+   * Records the latest dispatch sequence. Implementations may batch these, so
+   * a crash can lose the last few sequences but never resume from a newer one.
+   */
+  updateSequence?(token: string, sequence: number): Promise<void>;
+  /**
+   * Optional, lets processes sharing a token share its identify budget.
+   * Without these the budget is only tracked in memory. Load and save are
+   * separate calls, so the shared count is best-effort across processes.
+   */
+  saveIdentifyBudget?(token: string, budget: IdentifyBudget): Promise<void>;
+  loadIdentifyBudget?(token: string): Promise<IdentifyBudget | null>;
 }
 
 export const DEFAULT_SESSION_PATH = './.sessions';
@@ -1,10 +1,21 @@
-import { mkdirSync, unlinkSync } from 'node:fs';
-import type { SessionData, SessionStorage } from './session';
-import { SessionDataSchema } from './session';
+import { mkdirSync, readdirSync, unlinkSync } from 'node:fs';
+import type { IdentifyBudget, SessionData, SessionStorage, SessionStorageOptions } from './session';
+import { DEFAULT_SESSION_MAX_AGE, IdentifyBudgetSchema, SessionDataSchema, checkSession } from './session';
 import { createHash } from 'node:crypto';
 
+const DEFAULT_SEQUENCE_FLUSH_INTERVAL = 5000;
+
 export class FileSessionStorage implements SessionStorage {
-  constructor(private basePath: string) {
+  private maxAge: number;
+  private sequenceFlushInterval: number;
+  private pendingSequences = new Map<string, number>();
+  private flushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Bumped by save() and delete(), so a flush already reading the old session never writes over the new one.
+  private generations = new Map<string, number>();
+
+  constructor(private basePath: string, options: SessionStorageOptions = {}) {
+    this.maxAge = options.maxAge ?? DEFAULT_SESSION_MAX_AGE;
+    this.sequenceFlushInterval = options.sequenceFlushInterval ?? DEFAULT_SEQUENCE_FLUSH_INTERVAL;
     this.ensureDirectory();
   }
 
@@ -26,6 +37,11 @@ export class FileSessionStorage implements SessionStorage {
   }
 
   async save(token: string, session: SessionData): Promise<void> {
+    this.cancelSequenceFlush(token);
+    await this.writeSession(token, session);
+  }
+
+  private async writeSession(token: string, session: SessionData): Promise<void> {
     this.ensureDirectory();
     const filePath = this.getFilePath(token);
     const data = SessionDataSchema.parse(session);
@@ -33,8 +49,16 @@ export class FileSessionStorage implements SessionStorage {
   }
 
   async load(token: string): Promise<SessionData | null> {
+    const session = await this.readSession(this.getFilePath(token));
+    if (session && checkSession(session, { maxAge: this.maxAge }) === 'expired') {
+      await this.delete(token);
+      return null;
+    }
+    return session;
+  }
+
+  private async readSession(filePath: string): Promise<SessionData | null> {
     try {
-      const filePath = this.getFilePath(token);
       const file = Bun.file(filePath);
       const content = await file.text();
       const data = JSON.parse(content);
@@ -44,7 +68,78 @@ export class FileSessionStorage implements SessionStorage {
     }
   }
 
+  private listSessionFiles(): string[] {
+    try {
+      return readdirSync(this.basePath)
+        .filter(name => name.endsWith('.json') && !name.endsWith('.budget.json'))
+        .map(name => `${this.basePath}/${name}`);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async listSessions(): Promise<SessionData[]> {
+    const sessions = await Promise.all(this.listSessionFiles().map(filePath => this.readSession(filePath)));
+    return sessions.filter((session): session is SessionData => session !== null);
+  }
+
+  async prune(maxAge: number = this.maxAge): Promise<number> {
+    let removed = 0;
+    for (const filePath of this.listSessionFiles()) {
+      const session = await this.readSession(filePath);
+      if (session && checkSession(session, { maxAge }) === 'expired') {
+        try {
+          unlinkSync(filePath);
+          removed++;
+        } catch (error) {
+          // Removed by another process in the meantime
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Writes at most once per `sequenceFlushInterval`, keeping the latest sequence.
+   */
+  async updateSequence(token: string, sequence: number): Promise<void> {
+    this.pendingSequences.set(token, sequence);
+    if (this.flushTimers.has(token)) return;
+
+    const timer = setTimeout(() => {
+      this.flushSequence(token).catch(() => {
+        // The next READY or resumable close writes the full session anyway
+      });
+    }, this.sequenceFlushInterval);
+    timer.unref?.();
+    this.flushTimers.set(token, timer);
+  }
+
+  private async flushSequence(token: string): Promise<void> {
+    this.flushTimers.delete(token);
+    const sequence = this.pendingSequences.get(token);
+    this.pendingSequences.delete(token);
+    if (sequence === undefined) return;
+
+    const generation = this.generations.get(token);
+    const session = await this.load(token);
+    if (!session || session.sequence >= sequence || this.generations.get(token) !== generation) return;
+
+    await this.writeSession(token, { ...session, sequence, timestamp: Date.now() });
+  }
+
+  private cancelSequenceFlush(token: string): void {
+    this.generations.set(token, (this.generations.get(token) ?? 0) + 1);
+    const timer = this.flushTimers.get(token);
+    if (timer) {
+      clearTimeout(timer);
+      this.flushTimers.delete(token);
+    }
+    this.pendingSequences.delete(token);
+  }
+
   async delete(token: string): Promise<void> {
+    this.cancelSequenceFlush(token);
     const filePath = this.getFilePath(token);
     try {
       unlinkSync(filePath);
@@ -68,17 +163,68 @@ export class FileSessionStorage implements SessionStorage {
     const session = await this.load(token);
     return session !== null;
   }
+
+  async saveIdentifyBudget(token: string, budget: IdentifyBudget): Promise<void> {
+    this.ensureDirectory();
+    const filePath = `${this.basePath}/${this.getTokenHash(token)}.budget.json`;
+    await Bun.write(filePath, JSON.stringify(IdentifyBudgetSchema.parse(budget), null, 2));
+  }
+
+  async loadIdentifyBudget(token: string): Promise<IdentifyBudget | null> {
+    try {
+      const file = Bun.file(`${this.basePath}/${this.getTokenHash(token)}.budget.json`);
+      return IdentifyBudgetSchema.parse(JSON.parse(await file.text()));
+    } catch (error) {
+      return null;
+    }
+  }
 }
 
 export class WebSocketSessionStorage implements SessionStorage {
   private sessions: Map<string, SessionData> = new Map();
+  private budgets: Map<string, IdentifyBudget> = new Map();
+  private maxAge: number;
+
+  constructor(options: SessionStorageOptions = {}) {
+    this.maxAge = options.maxAge ?? DEFAULT_SESSION_MAX_AGE;
+  }
 
   async save(token: string, session: SessionData): Promise<void> {
     this.sessions.set(token, session);
   }
 
   async load(token: string): Promise<SessionData | null> {
-    return this.sessions.get(token) ?? null;
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    if (checkSession(session, { maxAge: this.maxAge }) === 'expired') {
+      this.sessions.delete(token);
+      return null;
+    }
+    return session;
+  }
+
+  async listSessions(): Promise<SessionData[]> {
+    return [...this.sessions.values()];
+  }
+
+  async prune(maxAge: number = this.maxAge): Promise<number> {
+    let removed = 0;
+    for (const [token, session] of this.sessions) {
+      if (checkSession(session, { maxAge }) === 'expired') {
+        this.sessions.delete(token);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /** Memory writes are cheap, so there is nothing to throttle. */
+  async updateSequence(token: string, sequence: number): Promise<void> {
+    const session = this.sessions.get(token);
+    if (session && sequence > session.sequence) {
+      this.sessions.set(token, { ...session, sequence, timestamp: Date.now() });
+    }
   }
 
   async delete(token: string): Promise<void> {
@@ -92,14 +238,23 @@ export class WebSocketSessionStorage implements SessionStorage {
   async hasSession(token: string): Promise<boolean> {
     return (await this.load(token)) !== null;
   }
+
+  async saveIdentifyBudget(token: string, budget: IdentifyBudget): Promise<void> {
+    this.budgets.set(token, budget);
+  }
+
+  async loadIdentifyBudget(token: string): Promise<IdentifyBudget | null> {
+    return this.budgets.get(token) ?? null;
+  }
 }
 
 export function createSessionStorage(
   type: 'file' | 'websocket' = 'file',
-  basePath?: string
+  basePath?: string,
+  options: SessionStorageOptions = {}
 ): SessionStorage {
   if (type === 'websocket') {
-    return new WebSocketSessionStorage();
+    return new WebSocketSessionStorage(options);
   }
-  return new FileSessionStorage(basePath ?? './.sessions');
+  return new FileSessionStorage(basePath ?? './.sessions', options);
 }
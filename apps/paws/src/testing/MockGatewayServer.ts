@@ -0,0 +1,354 @@
+import { EventEmitter } from '@paws/event-emitter';
+import { randomUUID } from 'node:crypto';
+import type { z } from 'zod';
+import type { RateLimited } from '@paws/shared-types';
+import { OpCode } from '@/gateway/opcodes';
+import { createCodec, type GatewayCodec, type GatewayEncoding } from '@/gateway/codec';
+import { toUint8Array } from '@/gateway/compression';
+import {
+  IdentifySchema,
+  ResumeSchema,
+  RequestGuildMembersSchema,
+  VoiceStateUpdateSchema,
+  type Identify,
+  type Ready,
+  type Resume
+} from '@/gateway/types';
+import { PresenceSchema, type Presence } from '@/presence/models';
+
+export interface MockGatewayServerOptions {
+  /** Defaults to 0, which picks a free port. */
+  port?: number;
+  heartbeatInterval?: number;
+  /** When set, IDENTIFY/RESUME with any other token is closed with 4004. */
+  token?: string;
+  user?: Ready['user'];
+  /** Answer IDENTIFY with READY. Defaults to true. */
+  autoReady?: boolean;
+  /** Answer heartbeats with HEARTBEAT_ACK. Defaults to true. */
+  ackHeartbeats?: boolean;
+}
+
+export interface ReceivedPayload {
+  connectionId: number;
+  op: OpCode;
+  d: unknown;
+  receivedAt: number;
+}
+
+export interface MockGatewayServerEvents {
+  connection: { connectionId: number; encoding: GatewayEncoding };
+  identify: { connectionId: number; identify: Identify };
+  resume: { connectionId: number; resume: Resume; accepted: boolean };
+  payload: ReceivedPayload;
+  disconnect: { connectionId: number; code: number; reason: string };
+}
+
+interface ConnectionData {
+  id: number;
+  codec: GatewayCodec;
+  sessionId: string | null;
+}
+
+interface MockSession {
+  id: string;
+  sequence: number;
+  /** Dispatches sent on this session, replayed on RESUME. */
+  history: { s: number; t: string; d: unknown }[];
+}
+
+/**
+ * Scriptable stand-in for the Discord gateway, for tests that should not
+ * need a token or network. It speaks JSON and ETF but no transport
+ * compression, so clients must connect without `zlib-stream`.
+ */
+export class MockGatewayServer extends EventEmitter<MockGatewayServerEvents> {
+  private server: ReturnType<typeof Bun.serve<ConnectionData>> | null = null;
+  private connections = new Map<number, Bun.ServerWebSocket<ConnectionData>>();
+  private sessions = new Map<string, MockSession>();
+  private received: ReceivedPayload[] = [];
+  private nextConnectionId = 1;
+  private options: Required<Omit<MockGatewayServerOptions, 'token'>> & { token?: string };
+
+  constructor(options: MockGatewayServerOptions = {}) {
+    super();
+    this.options = {
+      port: 0,
+      heartbeatInterval: 41250,
+      autoReady: true,
+      ackHeartbeats: true,
+      user: { id: '1', username: 'mock', discriminator: '0' },
+      ...options
+    };
+  }
+
+  start(): string {
+    if (this.server) return this.url;
+
+    this.server = Bun.serve<ConnectionData>({
+      port: this.options.port,
+      fetch: (request, server) => {
+        const encoding = new URL(request.url).searchParams.get('encoding') === 'etf' ? 'etf' : 'json';
+        const data: ConnectionData = { id: this.nextConnectionId++, codec: createCodec(encoding), sessionId: null };
+        return server.upgrade(request, { data }) ? undefined : new Response('Upgrade required', { status: 426 });
+      },
+      websocket: {
+        open: (ws) => {
+          this.connections.set(ws.data.id, ws);
+          this.emit('connection', { connectionId: ws.data.id, encoding: ws.data.codec.encoding });
+          this.sendTo(ws, OpCode.HELLO, { heartbeat_interval: this.options.heartbeatInterval });
+        },
+        message: (ws, message) => this.handleMessage(ws, message),
+        close: (ws, code, reason) => {
+          this.connections.delete(ws.data.id);
+          this.emit('disconnect', { connectionId: ws.data.id, code, reason });
+        }
+      }
+    });
+
+    return this.url;
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('MockGatewayServer is not started');
+    }
+    return `ws://localhost:${this.server.port}`;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+    this.connections.clear();
+  }
+
+  private handleMessage(ws: Bun.ServerWebSocket<ConnectionData>, message: string | Buffer): void {
+    let payload;
+    try {
+      payload = ws.data.codec.decode(typeof message === 'string' ? message : toUint8Array(message));
+    } catch {
+      ws.close(4002, 'Error while decoding payload');
+      return;
+    }
+
+    const entry: ReceivedPayload = { connectionId: ws.data.id, op: payload.op, d: payload.d, receivedAt: Date.now() };
+    this.received.push(entry);
+    this.emit('payload', entry);
+
+    switch (payload.op) {
+      case OpCode.HEARTBEAT:
+        if (this.options.ackHeartbeats) {
+          this.sendTo(ws, OpCode.HEARTBEAT_ACK, null);
+        }
+        break;
+      case OpCode.IDENTIFY:
+        this.handleIdentify(ws, payload.d);
+        break;
+      case OpCode.RESUME:
+        this.handleResume(ws, payload.d);
+        break;
+      case OpCode.PRESENCE_UPDATE:
+        this.validate(ws, PresenceSchema, payload.d);
+        break;
+      case OpCode.REQUEST_GUILD_MEMBERS:
+        this.validate(ws, RequestGuildMembersSchema, payload.d);
+        break;
+      case OpCode.VOICE_STATE:
+        this.validate(ws, VoiceStateUpdateSchema, payload.d);
+        break;
+      case OpCode.UNKNOWN:
+        ws.close(4001, 'Unknown opcode');
+        break;
+    }
+  }
+
+  private validate<T>(ws: Bun.ServerWebSocket<ConnectionData>, schema: z.ZodType<T>, data: unknown): T | null {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      ws.close(4002, 'Error while decoding payload');
+      return null;
+    }
+    return result.data;
+  }
+
+  private handleIdentify(ws: Bun.ServerWebSocket<ConnectionData>, data: unknown): void {
+    if (ws.data.sessionId) {
+      ws.close(4005, 'Already authenticated');
+      return;
+    }
+
+    const identify = this.validate(ws, IdentifySchema, data);
+    if (!identify) return;
+
+    if (this.options.token !== undefined && identify.token !== this.options.token) {
+      ws.close(4004, 'Authentication failed');
+      return;
+    }
+
+    this.emit('identify', { connectionId: ws.data.id, identify });
+    if (!this.options.autoReady) return;
+
+    const session: MockSession = { id: randomUUID(), sequence: 0, history: [] };
+    this.sessions.set(session.id, session);
+    ws.data.sessionId = session.id;
+
+    const ready: Ready = {
+      v: 10,
+      user: this.options.user,
+      guilds: [],
+      session_id: session.id,
+      resume_gateway_url: this.url,
+      application: { id: '0', flags: 0 },
+      ...(identify.shard ? { shard: identify.shard } : {})
+    };
+    this.dispatchTo(ws, session, 'READY', ready);
+  }
+
+  private handleResume(ws: Bun.ServerWebSocket<ConnectionData>, data: unknown): void {
+    const resume = this.validate(ws, ResumeSchema, data);
+    if (!resume) return;
+
+    if (this.options.token !== undefined && resume.token !== this.options.token) {
+      ws.close(4004, 'Authentication failed');
+      return;
+    }
+
+    const session = this.sessions.get(resume.session_id);
+    this.emit('resume', { connectionId: ws.data.id, resume, accepted: session !== undefined });
+
+    if (!session) {
+      this.sendTo(ws, OpCode.INVALID_SESSION, false);
+      return;
+    }
+
+    ws.data.sessionId = session.id;
+    for (const missed of session.history.filter(dispatch => dispatch.s > resume.seq)) {
+      this.sendTo(ws, OpCode.DISPATCH, missed.d, missed.s, missed.t);
+    }
+    this.dispatchTo(ws, session, 'RESUMED', null);
+  }
+
+  private dispatchTo(ws: Bun.ServerWebSocket<ConnectionData>, session: MockSession, t: string, d: unknown): void {
+    session.sequence++;
+    session.history.push({ s: session.sequence, t, d });
+    this.sendTo(ws, OpCode.DISPATCH, d, session.sequence, t);
+  }
+
+  private sendTo(ws: Bun.ServerWebSocket<ConnectionData>, op: OpCode, d: unknown, s: number | null = null, t: string | null = null): void {
+    const frame = ws.data.codec.encode({ op, d, s, t } as { op: number; d: unknown });
+    ws.send(frame);
+  }
+
+  private targets(connectionId?: number): Bun.ServerWebSocket<ConnectionData>[] {
+    if (connectionId === undefined) {
+      return [...this.connections.values()];
+    }
+    const ws = this.connections.get(connectionId);
+    return ws ? [ws] : [];
+  }
+
+  /**
+   * Sends a dispatch to every identified connection, or only to `connectionId`.
+   */
+  dispatch(t: string, d: unknown, connectionId?: number): void {
+    for (const ws of this.targets(connectionId)) {
+      const session = ws.data.sessionId ? this.sessions.get(ws.data.sessionId) : undefined;
+      if (session) {
+        this.dispatchTo(ws, session, t, d);
+      }
+    }
+  }
+
+  /**
+   * Bumps a session's sequence without sending, so the client sees a gap.
+   */
+  skipSequence(count = 1, connectionId?: number): void {
+    for (const ws of this.targets(connectionId)) {
+      const session = ws.data.sessionId ? this.sessions.get(ws.data.sessionId) : undefined;
+      if (session) {
+        session.sequence += count;
+      }
+    }
+  }
+
+  /** Sends any raw payload. */
+  send(op: OpCode, d: unknown, connectionId?: number): void {
+    this.targets(connectionId).forEach(ws => this.sendTo(ws, op, d));
+  }
+
+  sendReconnect(connectionId?: number): void {
+    this.send(OpCode.RECONNECT, null, connectionId);
+  }
+
+  sendInvalidSession(resumable: boolean, connectionId?: number): void {
+    for (const ws of this.targets(connectionId)) {
+      if (!resumable && ws.data.sessionId) {
+        this.sessions.delete(ws.data.sessionId);
+        ws.data.sessionId = null;
+      }
+      this.sendTo(ws, OpCode.INVALID_SESSION, resumable);
+    }
+  }
+
+  sendRateLimited(data: RateLimited, connectionId?: number): void {
+    this.dispatch('RATE_LIMITED', data, connectionId);
+  }
+
+  requestHeartbeat(connectionId?: number): void {
+    this.send(OpCode.HEARTBEAT, null, connectionId);
+  }
+
+  close(code: number, reason = '', connectionId?: number): void {
+    this.targets(connectionId).forEach(ws => ws.close(code, reason));
+  }
+
+  setAckHeartbeats(enabled: boolean): void {
+    this.options.ackHeartbeats = enabled;
+  }
+
+  getConnectionIds(): number[] {
+    return [...this.connections.keys()];
+  }
+
+  getReceived(op?: OpCode): ReceivedPayload[] {
+    return op === undefined ? [...this.received] : this.received.filter(entry => entry.op === op);
+  }
+
+  getPresenceUpdates(): Presence[] {
+    return this.getReceived(OpCode.PRESENCE_UPDATE).map(entry => entry.d as Presence);
+  }
+
+  clearReceived(): void {
+    this.received = [];
+  }
+
+  /**
+   * Resolves with the next payload of `op` (including ones already received
+   * when `includePast` is set) that matches the predicate.
+   */
+  waitFor(
+    op: OpCode,
+    options: { predicate?: (data: unknown) => boolean; timeout?: number; includePast?: boolean } = {}
+  ): Promise<ReceivedPayload> {
+    const matches = (entry: ReceivedPayload) => entry.op === op && (options.predicate?.(entry.d) ?? true);
+
+    const past = options.includePast ? this.received.find(matches) : undefined;
+    if (past) return Promise.resolve(past);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off('payload', listener);
+        reject(new Error(`Timed out waiting for opcode ${op}`));
+      }, options.timeout ?? 5000);
+
+      const listener = (entry: ReceivedPayload) => {
+        if (!matches(entry)) return;
+        clearTimeout(timer);
+        this.off('payload', listener);
+        resolve(entry);
+      };
+
+      this.on('payload', listener);
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { MockGatewayServer } from './MockGatewayServer';
+export type { MockGatewayServerOptions, MockGatewayServerEvents, ReceivedPayload } from './MockGatewayServer';
@@ -0,0 +1,67 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { RpcPool } from '@/rpc/RpcPool';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { silentLogger, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+let pool: RpcPool;
+
+afterEach(async () => {
+  await pool?.close();
+  server?.stop();
+});
+
+function createPool(url: string): RpcPool {
+  return new RpcPool({
+    sessionStorage: new WebSocketSessionStorage(),
+    logger: silentLogger(),
+    maxConcurrentIdentifies: 1,
+    gateway: { gatewayUrl: url }
+  });
+}
+
+function identifiedTokens(server: MockGatewayServer): string[] {
+  return server.getReceived(OpCode.IDENTIFY).map(entry => (entry.d as { token: string }).token);
+}
+
+test('identifies one account at a time', async () => {
+  server = new MockGatewayServer();
+  pool = createPool(server.start());
+
+  const order: string[] = [];
+  server.on('identify', ({ identify }) => order.push(`identify ${identify.token}`));
+  pool.on('ready', ({ accountId }) => order.push(`ready ${accountId}`));
+
+  for (const id of ['a', 'b', 'c']) {
+    pool.add({ id, token: id });
+  }
+  expect((await pool.connectAll()).size).toBe(0);
+
+  expect(order).toHaveLength(6);
+  for (let i = 0; i < order.length; i += 2) {
+    const account = order[i]!.split(' ')[1];
+    expect(order[i + 1]).toBe(`ready ${account}`);
+  }
+});
+
+test('removing queued accounts does not stall the identify queue', async () => {
+  server = new MockGatewayServer({ autoReady: false });
+  pool = createPool(server.start());
+
+  for (const id of ['a', 'b', 'c']) {
+    pool.add({ id, token: id });
+  }
+  void pool.connectAll();
+
+  await waitUntil(() => identifiedTokens(server).length === 1);
+  const [first] = identifiedTokens(server);
+  const [second, third] = ['a', 'b', 'c'].filter(id => id !== first);
+
+  await pool.remove(second!);
+  await pool.remove(first!);
+
+  await waitUntil(() => identifiedTokens(server).length === 2);
+  expect(identifiedTokens(server)).toEqual([first!, third!]);
+});
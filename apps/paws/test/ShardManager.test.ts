@@ -0,0 +1,60 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { ShardManager, shardIdForGuild } from '@/gateway/ShardManager';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { silentLogger, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+let manager: ShardManager | undefined;
+
+afterEach(async () => {
+  await manager?.close();
+  manager = undefined;
+  server?.stop();
+});
+
+function createManager(url: string, totalShards: number, maxConcurrency: number): ShardManager {
+  return new ShardManager('token', {
+    totalShards,
+    maxConcurrency,
+    identifySpacing: 150,
+    sessionStorage: new WebSocketSessionStorage(),
+    websocketOptions: { gatewayUrl: url, logger: silentLogger() }
+  });
+}
+
+test('identifies share a bucket only after the identify spacing', async () => {
+  server = new MockGatewayServer();
+  const identifies = new Map<number, number>();
+  server.on('identify', ({ identify }) => identifies.set(identify.shard![0], Date.now()));
+  manager = createManager(server.start(), 3, 2);
+
+  await manager.connect();
+
+  // Shards 0 and 1 own buckets 0 and 1 and go together; shard 2 waits behind shard 0.
+  expect(Math.abs(identifies.get(1)! - identifies.get(0)!)).toBeLessThan(100);
+  expect(identifies.get(2)! - identifies.get(0)!).toBeGreaterThanOrEqual(100);
+  expect([...manager.getConnectionMetrics().keys()].sort()).toEqual([0, 1, 2]);
+});
+
+test('member requests go to the shard that owns the guild', async () => {
+  server = new MockGatewayServer();
+  const shardByConnection = new Map<number, number>();
+  server.on('identify', ({ connectionId, identify }) => shardByConnection.set(connectionId, identify.shard![0]));
+  manager = createManager(server.start(), 2, 2);
+  await manager.connect();
+
+  const guilds = ['81384788765712384', '81384788769906688'];
+  expect(new Set(guilds.map(guildId => shardIdForGuild(guildId, 2))).size).toBe(2);
+  for (const guildId of guilds) {
+    await manager.requestGuildMembers(guildId);
+  }
+  await waitUntil(() => server.getReceived(OpCode.REQUEST_GUILD_MEMBERS).length === guilds.length);
+
+  const routed = server.getReceived(OpCode.REQUEST_GUILD_MEMBERS).map(received => ({
+    guildId: (received.d as { guild_id: string }).guild_id,
+    shardId: shardByConnection.get(received.connectionId)
+  }));
+  expect(routed).toEqual(guilds.map(guildId => ({ guildId, shardId: shardIdForGuild(guildId, 2) })));
+});
@@ -0,0 +1,39 @@
+import { expect, test } from 'bun:test';
+import { MemoryAdapter, type CollectionSchema } from '@paws/storage';
+import { GatewayCache, type CacheEntity } from '@/cache/GatewayCache';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, silentLogger, sleep } from './helpers';
+
+const CACHE_SCHEMA: CollectionSchema<CacheEntity> = {
+  guilds: {},
+  channels: {},
+  members: {},
+  roles: {},
+  presences: {},
+  users: {}
+};
+
+test('users evicted by an LRU policy are removed from persistence too', async () => {
+  const storage = new MemoryAdapter(CACHE_SCHEMA, {}, silentLogger());
+  const options = { policies: { users: { type: 'lru' as const, maxSize: 2 } }, storage, logger: silentLogger() };
+  const client = createClient('ws://127.0.0.1:1');
+  const cache = new GatewayCache(client, options);
+
+  for (const [index, id] of ['1', '2', '3'].entries()) {
+    await client.replayPayload({
+      op: OpCode.DISPATCH,
+      t: 'USER_UPDATE',
+      s: index + 1,
+      d: { id, username: `user${id}`, discriminator: '0', avatar: null }
+    });
+  }
+  await sleep(10);
+  expect((await storage.keys('users')).sort()).toEqual(['2', '3']);
+  expect(cache.getUser('1')).toBeUndefined();
+
+  const hydrated = new GatewayCache(createClient('ws://127.0.0.1:1'), options);
+  await hydrated.hydrate();
+  expect(hydrated.getStats().users).toBe(2);
+
+  await client.close();
+});
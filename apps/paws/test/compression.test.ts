@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { constants, deflateSync } from 'node:zlib';
+import { ZlibStreamInflater } from '@/gateway/compression';
+
+const SYNC_FLUSH_SUFFIX = [0x00, 0x00, 0xff, 0xff];
+
+function compress(text: string): Uint8Array {
+  return deflateSync(text, { finishFlush: constants.Z_SYNC_FLUSH });
+}
+
+describe('ZlibStreamInflater', () => {
+  test('inflates a complete frame', async () => {
+    const inflater = new ZlibStreamInflater();
+    const output = await inflater.push(compress('{"op":11}'));
+    expect(new TextDecoder().decode(output!)).toBe('{"op":11}');
+    inflater.destroy();
+  });
+
+  test('buffers until the sync flush suffix arrives', async () => {
+    const inflater = new ZlibStreamInflater();
+    const frame = compress('{"op":10}');
+    expect(await inflater.push(frame.subarray(0, 4))).toBeNull();
+    const output = await inflater.push(frame.subarray(4));
+    expect(new TextDecoder().decode(output!)).toBe('{"op":10}');
+    inflater.destroy();
+  });
+
+  test('rejects a corrupt frame and every frame after it', async () => {
+    const inflater = new ZlibStreamInflater();
+    const garbage = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x12, 0x34, ...SYNC_FLUSH_SUFFIX]);
+
+    const corrupt = inflater.push(garbage);
+    const next = inflater.push(compress('{"op":11}'));
+
+    await expect(corrupt).rejects.toThrow();
+    await expect(next).rejects.toThrow();
+    await expect(inflater.push(compress('{"op":11}'))).rejects.toThrow('destroyed');
+  });
+});
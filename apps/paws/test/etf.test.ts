@@ -0,0 +1,43 @@
+import { afterEach, expect, test } from 'bun:test';
+import { packEtf, unpackEtf } from '@/gateway/etf';
+import { PresenceUpdateSchema, type PresenceUpdate } from '@/gateway/types';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { createClient, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+test('integers round-trip as numbers up to the safe range and as strings beyond it', () => {
+  const timestamp = 1_760_000_000_000;
+  const values = { small: 42, negative: -70000, int32: 2 ** 31 - 1, timestamp, safe: Number.MAX_SAFE_INTEGER };
+
+  expect(unpackEtf(packEtf(values))).toEqual(values);
+  expect(unpackEtf(packEtf(1234567890123456789n))).toBe('1234567890123456789');
+  expect(unpackEtf(packEtf(-(2n ** 60n)))).toBe((-(2n ** 60n)).toString());
+});
+
+test('an ETF presence update with activity timestamps passes strict validation', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start(), { encoding: 'etf', validation: 'strict' });
+  const presences: PresenceUpdate[] = [];
+  client.on('presenceUpdate', presence => presences.push(presence));
+  await client.connect();
+
+  const now = Date.now();
+  server.dispatch('PRESENCE_UPDATE', {
+    user: { id: '80351110224678912' },
+    guild_id: '81384788765712384',
+    status: 'online',
+    activities: [{ name: 'Game', type: 0, created_at: now, timestamps: { start: now - 60000 } }],
+    client_status: { desktop: 'online' }
+  });
+
+  await waitUntil(() => presences.length > 0);
+  expect(presences[0]!.activities[0]).toMatchObject({ created_at: now, timestamps: { start: now - 60000 } });
+  expect(PresenceUpdateSchema.safeParse(presences[0]).success).toBe(true);
+
+  await client.close();
+});
@@ -0,0 +1,68 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient } from './helpers';
+
+const GUILD_ID = '81384788765712384';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+function member(id: string) {
+  return { user: { id, username: `user${id}`, discriminator: '0' }, roles: [], deaf: false, mute: false };
+}
+
+test('fetchGuildMembers merges every chunk carrying its nonce', async () => {
+  server = new MockGatewayServer();
+  server.on('payload', ({ op, d }) => {
+    if (op !== OpCode.REQUEST_GUILD_MEMBERS) return;
+    const { nonce } = d as { nonce: string };
+    const chunk = { guild_id: GUILD_ID, chunk_count: 2 };
+    server.dispatch('GUILD_MEMBERS_CHUNK', { ...chunk, chunk_index: 0, members: [member('1')], nonce });
+    server.dispatch('GUILD_MEMBERS_CHUNK', { ...chunk, chunk_index: 0, members: [member('9')], nonce: 'someone-else' });
+    server.dispatch('GUILD_MEMBERS_CHUNK', {
+      ...chunk,
+      chunk_index: 1,
+      members: [member('2')],
+      presences: [{ user: { id: '2' }, status: 'idle' }],
+      not_found: ['3'],
+      nonce
+    });
+  });
+  const client = createClient(server.start());
+  await client.connect();
+
+  const result = await client.fetchGuildMembers(GUILD_ID, { userIds: ['1', '2', '3'], presences: true });
+
+  expect(result.guildId).toBe(GUILD_ID);
+  expect(result.members.map(entry => entry.user.id)).toEqual(['1', '2']);
+  expect(result.presences).toEqual([{ user: { id: '2' }, status: 'idle' }]);
+  expect(result.notFound).toEqual(['3']);
+  await client.close();
+});
+
+test('fetchGuildMembers rejects on a RATE_LIMITED for its nonce', async () => {
+  server = new MockGatewayServer();
+  server.on('payload', ({ op, d }) => {
+    if (op !== OpCode.REQUEST_GUILD_MEMBERS) return;
+    const { nonce } = d as { nonce: string };
+    server.sendRateLimited({ opcode: OpCode.REQUEST_GUILD_MEMBERS, retry_after: 2.5, meta: { guild_id: GUILD_ID, nonce } });
+  });
+  const client = createClient(server.start());
+  await client.connect();
+
+  await expect(client.fetchGuildMembers(GUILD_ID)).rejects.toThrow('retry after 2.5s');
+  await client.close();
+});
+
+test('fetchGuildMembers rejects when the chunks never arrive', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start());
+  await client.connect();
+
+  await expect(client.fetchGuildMembers(GUILD_ID, { timeout: 50 })).rejects.toThrow('timed out');
+  await client.close();
+});
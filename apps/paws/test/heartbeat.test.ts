@@ -0,0 +1,48 @@
+import { afterEach, expect, spyOn, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+test('the first heartbeat goes out after interval * jitter, not a full interval', async () => {
+  server = new MockGatewayServer({ heartbeatInterval: 1000 });
+  const random = spyOn(Math, 'random').mockReturnValue(0.05);
+  const client = createClient(server.start());
+
+  try {
+    const startedAt = Date.now();
+    await client.connect();
+    await waitUntil(() => server.getReceived(OpCode.HEARTBEAT).length > 0, 500);
+    expect(Date.now() - startedAt).toBeLessThan(500);
+  } finally {
+    random.mockRestore();
+    await client.close();
+  }
+});
+
+test('a missed ACK closes with a non-1000 code and resumes the session', async () => {
+  server = new MockGatewayServer({ heartbeatInterval: 50 });
+  const client = createClient(server.start());
+  const closes: number[] = [];
+  client.on('disconnected', ({ code }) => closes.push(code));
+  await client.connect();
+  const sessionId = client.getSessionInfo()?.sessionId;
+
+  const resumes: boolean[] = [];
+  server.on('resume', ({ accepted }) => resumes.push(accepted));
+  server.setAckHeartbeats(false);
+  await waitUntil(() => closes.length > 0);
+  server.setAckHeartbeats(true);
+  await waitUntil(() => resumes.length > 0 && client.isReady());
+
+  expect(closes[0]).not.toBe(1000);
+  expect(resumes).toEqual([true]);
+  expect(client.getSessionInfo()?.sessionId).toBe(sessionId);
+
+  await client.close();
+});
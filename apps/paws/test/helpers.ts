@@ -0,0 +1,32 @@
+import { DebugLogger } from '@paws/debug-logger';
+import { DiscordWebSocket, type DiscordWebSocketOptions } from '@/gateway/DiscordWebSocket';
+import type { SessionStorage } from '@/storage/session';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+
+export function silentLogger(): DebugLogger {
+  const logger = new DebugLogger(false);
+  logger.disable();
+  return logger;
+}
+
+export function createClient(
+  url: string,
+  options: DiscordWebSocketOptions = {},
+  storage: SessionStorage = new WebSocketSessionStorage()
+): DiscordWebSocket {
+  return new DiscordWebSocket('token', undefined, storage, { gatewayUrl: url, logger: silentLogger(), ...options });
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function waitUntil(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await sleep(5);
+  }
+}
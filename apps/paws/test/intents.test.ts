@@ -0,0 +1,54 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { DiscordWebSocket } from '@/gateway/DiscordWebSocket';
+import { IntentsBitField } from '@/gateway/intents';
+import { OpCode } from '@/gateway/opcodes';
+import type { FatalClose } from '@/gateway/reconnect';
+import { DEFAULT_IDENTITY } from '@/constants';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { silentLogger } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+function createClient(url: string, intents: number): DiscordWebSocket {
+  return new DiscordWebSocket('token', { ...DEFAULT_IDENTITY, intents }, new WebSocketSessionStorage(), {
+    gatewayUrl: url,
+    logger: silentLogger()
+  });
+}
+
+test('IDENTIFY carries the intents and events outside them are reported undeliverable', async () => {
+  server = new MockGatewayServer();
+  const intents = new IntentsBitField(['GUILDS', 'GUILD_MESSAGES']).bitfield;
+  const client = createClient(server.start(), intents);
+  await client.connect();
+
+  const [identify] = server.getReceived(OpCode.IDENTIFY);
+  expect((identify?.d as { intents: number }).intents).toBe(intents);
+  expect(client.getIntents()).toEqual(['GUILDS', 'GUILD_MESSAGES']);
+  expect(client.canReceive('messageCreate')).toBe(true);
+  expect(client.canReceive('presenceUpdate')).toBe(false);
+  await client.close();
+});
+
+test('a 4014 close rejects connect with the privileged intents that were requested', async () => {
+  server = new MockGatewayServer({ autoReady: false });
+  server.on('identify', ({ connectionId }) => {
+    server.close(4014, 'Disallowed intent(s)', connectionId);
+  });
+  const client = createClient(server.start(), new IntentsBitField(['GUILDS', 'GUILD_MEMBERS', 'GUILD_PRESENCES']).bitfield);
+  const fatal: FatalClose[] = [];
+  client.on('fatalClose', close => fatal.push(close));
+
+  await expect(client.connect()).rejects.toThrow(
+    'Privileged intents not enabled for this application: GUILD_MEMBERS, GUILD_PRESENCES'
+  );
+  expect(fatal).toHaveLength(1);
+  expect(fatal[0]).toMatchObject({ code: 4014, exhausted: false, intents: ['GUILD_MEMBERS', 'GUILD_PRESENCES'] });
+  expect(server.getReceived(OpCode.IDENTIFY)).toHaveLength(1);
+  await client.close();
+});
@@ -0,0 +1,56 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import type { SequenceGap } from '@/gateway/DiscordWebSocket';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, sleep, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+test('a delayed dispatch does not produce a sequence gap or get dropped', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start());
+
+  client.use('inbound', async (ctx, next) => {
+    if (ctx.payload.t === 'SLOW') {
+      await sleep(50);
+    }
+    await next();
+  });
+
+  const gaps: SequenceGap[] = [];
+  const received: string[] = [];
+  client.on('sequenceGap', gap => gaps.push(gap));
+  client.on('dispatch', dispatch => received.push(dispatch.t));
+
+  await client.connect();
+  server.dispatch('SLOW', {});
+  server.dispatch('FAST', {});
+
+  await waitUntil(() => received.length === 2);
+  expect(gaps).toEqual([]);
+  expect(received.sort()).toEqual(['FAST', 'SLOW']);
+
+  await client.close();
+});
+
+test('a payload dropped by outbound middleware rejects its send', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start());
+  client.use('outbound', async (ctx, next) => {
+    if (ctx.payload.op === OpCode.PRESENCE_UPDATE || ctx.payload.op === OpCode.REQUEST_GUILD_MEMBERS) return;
+    await next();
+  });
+  await client.connect();
+
+  await expect(client.sendActivity({ activities: null, status: 'idle', afk: false, since: null })).rejects.toThrow('dropped by outbound middleware');
+  const startedAt = Date.now();
+  await expect(client.fetchGuildMembers('81384788765712384', { timeout: 5000 })).rejects.toThrow('dropped by outbound middleware');
+  expect(Date.now() - startedAt).toBeLessThan(1000);
+  expect(server.getPresenceUpdates()).toHaveLength(0);
+
+  await client.close();
+});
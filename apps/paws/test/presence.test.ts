@@ -0,0 +1,116 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { ActivityBuilder, CustomStatusBuilder } from '@/presence/builder';
+import { DiscordRPC } from '@/rpc/DiscordRPC';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { silentLogger, sleep, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+let rpc: DiscordRPC | undefined;
+
+afterEach(async () => {
+  await rpc?.disconnect();
+  rpc = undefined;
+  server?.stop();
+});
+
+function createRpc(url: string): DiscordRPC {
+  return new DiscordRPC('token', undefined, undefined, {
+    sessionStorage: new WebSocketSessionStorage(),
+    gateway: { gatewayUrl: url, logger: silentLogger() }
+  });
+}
+
+test('changes inside the debounce window go out as one presence update', async () => {
+  server = new MockGatewayServer();
+  rpc = createRpc(server.start());
+  await rpc.connect();
+
+  const sends = [
+    rpc.setActivity(new ActivityBuilder().setName('first')),
+    rpc.addActivity('extra', new ActivityBuilder().setName('second')),
+    rpc.setStatus('dnd')
+  ];
+  expect(new Set(sends).size).toBe(1);
+  await Promise.all(sends);
+  await waitUntil(() => server.getPresenceUpdates().length > 0);
+  await sleep(100);
+
+  const updates = server.getPresenceUpdates();
+  expect(updates).toHaveLength(1);
+  expect(updates[0]!.status).toBe('dnd');
+  expect(updates[0]!.activities?.map(activity => activity?.name)).toEqual(['first', 'second']);
+});
+
+test('re-setting the same presence sends nothing', async () => {
+  server = new MockGatewayServer();
+  rpc = createRpc(server.start());
+  await rpc.connect();
+
+  await rpc.setActivity(new ActivityBuilder().setName('same'));
+  await rpc.setActivity(new ActivityBuilder().setName('same'));
+  await waitUntil(() => server.getPresenceUpdates().length > 0);
+  await sleep(100);
+
+  expect(server.getPresenceUpdates()).toHaveLength(1);
+});
+
+test('the presence is sent again after disconnect() and connect()', async () => {
+  server = new MockGatewayServer();
+  rpc = createRpc(server.start());
+  await rpc.connect();
+  await rpc.setActivity(new ActivityBuilder().setName('kept'));
+  await waitUntil(() => server.getPresenceUpdates().length === 1);
+
+  await rpc.disconnect();
+  const readies: string[] = [];
+  rpc.on('ready', ready => readies.push(ready.session_id));
+  await rpc.connect();
+
+  await waitUntil(() => server.getPresenceUpdates().length === 2);
+  expect(readies).toHaveLength(1);
+  expect(server.getPresenceUpdates()[1]!.activities?.[0]?.name).toBe('kept');
+});
+
+test('activity slots keep their order as they are added, replaced and removed', async () => {
+  server = new MockGatewayServer();
+  rpc = createRpc(server.start());
+  await rpc.connect();
+  const names = () => server.getPresenceUpdates().map(update => update.activities?.map(activity => activity?.name));
+
+  await rpc.setActivity(new ActivityBuilder().setName('game'));
+  await rpc.addActivity('music', new ActivityBuilder().setName('song'));
+  await rpc.addActivity('0', new ActivityBuilder().setName('other game'));
+  await rpc.removeActivity('music');
+  await rpc.removeActivity('missing');
+  await waitUntil(() => server.getPresenceUpdates().length === 4);
+  await sleep(100);
+
+  expect(names()).toEqual([
+    ['game'],
+    ['game', 'song'],
+    ['other game', 'song'],
+    ['other game']
+  ]);
+  expect([...rpc.getActivities().keys()]).toEqual(['0']);
+});
+
+test('a custom status is sent next to the activity and cleared once it expires', async () => {
+  server = new MockGatewayServer();
+  rpc = createRpc(server.start());
+  await rpc.connect();
+
+  await rpc.setActivity(new ActivityBuilder().setName('game'));
+  await rpc.setCustomStatus(new CustomStatusBuilder().setText('brb').setEmoji('🐾').setExpiresIn(300));
+  await waitUntil(() => server.getPresenceUpdates().length === 2);
+
+  expect(server.getPresenceUpdates()[1]!.activities).toEqual([
+    expect.objectContaining({ name: 'game' }),
+    { name: 'Custom Status', type: 4, state: 'brb', emoji: { name: '🐾' } }
+  ]);
+  expect(rpc.getActivities().has('custom-status')).toBe(true);
+
+  await waitUntil(() => server.getPresenceUpdates().length === 3);
+  expect(server.getPresenceUpdates()[2]!.activities?.map(activity => activity?.name)).toEqual(['game']);
+  expect(rpc.getActivities().has('custom-status')).toBe(false);
+});
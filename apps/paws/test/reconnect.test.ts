@@ -0,0 +1,56 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import type { FatalClose } from '@/gateway/reconnect';
+import { OpCode } from '@/gateway/opcodes';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { createClient } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+test('connect() rejects when the gateway closes with a fatal code', async () => {
+  server = new MockGatewayServer({ token: 'other' });
+  const client = createClient(server.start());
+
+  const fatal: FatalClose[] = [];
+  client.on('fatalClose', close => fatal.push(close));
+
+  await expect(client.connect()).rejects.toThrow('4004');
+  expect(fatal).toHaveLength(1);
+  expect(fatal[0]!.exhausted).toBe(false);
+  expect(client.isReady()).toBe(false);
+
+  await client.close();
+});
+
+test('connect() rejects once reconnect attempts run out', async () => {
+  server = new MockGatewayServer({ autoReady: false });
+  server.on('identify', ({ connectionId }) => server.close(4000, 'Unknown error', connectionId));
+  const client = createClient(server.start(), { reconnect: { maxAttempts: 2, backoff: () => 10 } });
+
+  const error = await client.connect().then(() => null, (error: Error) => error);
+  expect(error?.message).toContain('Gave up reconnecting after 2 attempts');
+  expect((error?.cause as FatalClose).exhausted).toBe(true);
+
+  await client.close();
+});
+
+test('connect() rejects and the socket closes when the identify budget refuses', async () => {
+  server = new MockGatewayServer();
+  const storage = new WebSocketSessionStorage();
+  await storage.saveIdentifyBudget('token', { total: 1000, remaining: 0, resetAt: Date.now() + 60000, maxConcurrency: 1 });
+  const client = createClient(server.start(), { identifyBudget: 'refuse' }, storage);
+
+  const disconnected: number[] = [];
+  client.on('disconnected', ({ code }) => disconnected.push(code));
+
+  await expect(client.connect()).rejects.toThrow('Identify budget exhausted');
+  expect(disconnected).toEqual([1000]);
+  expect(server.getReceived(OpCode.IDENTIFY)).toHaveLength(0);
+  expect(client.isReady()).toBe(false);
+
+  await client.close();
+});
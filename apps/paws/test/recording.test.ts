@@ -0,0 +1,63 @@
+import { afterEach, expect, test } from 'bun:test';
+import { rmSync } from 'node:fs';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { SessionRecorder, SessionReplayer } from '@/gateway/recording';
+import { WebSocketSessionStorage } from '@/storage/sessionStorage';
+import { createClient, sleep } from './helpers';
+
+const RECORDING_PATH = `/tmp/paws-recording-${process.pid}.ndjson`;
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+  rmSync(RECORDING_PATH, { force: true });
+});
+
+test('replaying a recorded READY emits it without writing session storage', async () => {
+  server = new MockGatewayServer();
+  const recorder = new SessionRecorder(RECORDING_PATH);
+  const live = createClient(server.start(), { recorder });
+  await live.connect();
+  await live.close();
+  await recorder.close();
+
+  const storage = new WebSocketSessionStorage();
+  const replayed = createClient('ws://127.0.0.1:1', {}, storage);
+  const readies: string[] = [];
+  replayed.on('ready', ready => readies.push(ready.session_id));
+
+  const count = await (await SessionReplayer.load(RECORDING_PATH)).replay(replayed, { speed: Infinity });
+
+  expect(count).toBeGreaterThan(0);
+  expect(readies).toHaveLength(1);
+  expect(await storage.hasSession('token')).toBe(false);
+  expect(replayed.getSessionInfo()?.sessionId).toBe(readies[0]!);
+
+  await replayed.close();
+});
+
+test('a replayed READY leaves an unconnected client not ready and its queue untouched', async () => {
+  server = new MockGatewayServer();
+  const recorder = new SessionRecorder(RECORDING_PATH);
+  const live = createClient(server.start(), { recorder });
+  await live.connect();
+  await live.close();
+  await recorder.close();
+
+  const replayed = createClient('ws://127.0.0.1:1');
+  const errors: Error[] = [];
+  replayed.on('error', error => errors.push(error));
+  const queued = replayed.sendActivity({ activities: null, status: 'idle', afk: false, since: null });
+  queued.catch(() => {});
+
+  await (await SessionReplayer.load(RECORDING_PATH)).replay(replayed, { speed: Infinity });
+  await sleep(20);
+
+  expect(errors).toHaveLength(0);
+  expect(replayed.isReady()).toBe(false);
+  expect(replayed.getQueuedPayloadCount()).toBe(1);
+
+  await replayed.close();
+  await expect(queued).rejects.toThrow('Connection closed');
+});
@@ -0,0 +1,55 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, sleep, waitUntil } from './helpers';
+
+const GUILD_ID = '81384788765712384';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+test('payloads queued while disconnected go out after IDENTIFY, by priority', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start());
+
+  const sends = [
+    client.requestSoundboardSounds([GUILD_ID]),
+    client.sendActivity({ activities: null, status: 'idle', afk: false, since: null })
+  ];
+  await waitUntil(() => client.getQueuedPayloadCount() === 2);
+  expect(server.getReceived()).toHaveLength(0);
+
+  await client.connect();
+  await Promise.all(sends);
+  await waitUntil(() => server.getReceived().length >= 3);
+
+  expect(server.getReceived().map(received => received.op)).toEqual([
+    OpCode.IDENTIFY,
+    OpCode.PRESENCE_UPDATE,
+    OpCode.REQUEST_SOUNDBOARD_SOUNDS
+  ]);
+  expect(client.getQueuedPayloadCount()).toBe(0);
+  await client.close();
+});
+
+test('sends past the limit wait for the window to roll over', async () => {
+  server = new MockGatewayServer({ heartbeatInterval: 45_000 });
+  // Two of the six slots are reserved for heartbeats and IDENTIFY takes one more.
+  const client = createClient(server.start(), { sendQueue: { limit: 6, window: 300 } });
+  await client.connect();
+
+  const sends = Array.from({ length: 5 }, () => client.requestSoundboardSounds([GUILD_ID]));
+  await sleep(100);
+  expect(server.getReceived(OpCode.REQUEST_SOUNDBOARD_SOUNDS)).toHaveLength(3);
+  expect(client.getQueuedPayloadCount()).toBe(2);
+
+  await Promise.all(sends);
+  await waitUntil(() => server.getReceived(OpCode.REQUEST_SOUNDBOARD_SOUNDS).length === 5);
+  const [identify] = server.getReceived(OpCode.IDENTIFY);
+  const last = server.getReceived(OpCode.REQUEST_SOUNDBOARD_SOUNDS).at(-1);
+  expect(last!.receivedAt - identify!.receivedAt).toBeGreaterThanOrEqual(250);
+  await client.close();
+});
@@ -0,0 +1,99 @@
+import { afterEach, expect, spyOn, test } from 'bun:test';
+import { rmSync } from 'node:fs';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { FileSessionStorage } from '@/storage/sessionStorage';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, sleep, waitUntil } from './helpers';
+
+const SESSION_PATH = `/tmp/paws-sessions-${process.pid}`;
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+  rmSync(SESSION_PATH, { recursive: true, force: true });
+});
+
+test('a resumable close is resumed by the next client and refreshes the stored session', async () => {
+  server = new MockGatewayServer();
+  const url = server.start();
+  // A long flush interval keeps sequence updates from refreshing the timestamp on their own.
+  const storage = new FileSessionStorage(SESSION_PATH, { sequenceFlushInterval: 60000 });
+
+  const first = createClient(url, {}, storage);
+  await first.connect();
+  const sessionId = first.getSessionInfo()?.sessionId;
+  await first.close({ resumable: true });
+
+  const stored = await storage.load('token');
+  expect(stored?.sessionId).toBe(sessionId!);
+  await storage.save('token', { ...stored!, timestamp: Date.now() - 60000 });
+
+  const resumes: boolean[] = [];
+  server.on('resume', ({ accepted }) => resumes.push(accepted));
+  const second = createClient(url, {}, storage);
+  const startedAt = Date.now();
+  await second.connect();
+
+  expect(resumes).toEqual([true]);
+  expect(second.getSessionInfo()).toMatchObject({ sessionId, restored: true });
+  expect((await storage.load('token'))?.timestamp).toBeGreaterThanOrEqual(startedAt);
+
+  await second.close();
+});
+
+test('a plain close discards the stored session so the next client identifies', async () => {
+  server = new MockGatewayServer();
+  const url = server.start();
+  const storage = new FileSessionStorage(SESSION_PATH);
+
+  const first = createClient(url, {}, storage);
+  await first.connect();
+  await first.close();
+  expect(await storage.load('token')).toBeNull();
+
+  server.clearReceived();
+  const second = createClient(url, {}, storage);
+  await second.connect();
+
+  expect(server.getReceived(OpCode.RESUME)).toHaveLength(0);
+  expect(server.getReceived(OpCode.IDENTIFY)).toHaveLength(1);
+
+  await second.close();
+});
+
+test('a resumable close before READY rejects the pending connect()', async () => {
+  server = new MockGatewayServer({ autoReady: false });
+  const client = createClient(server.start());
+
+  const connecting = client.connect();
+  await waitUntil(() => server.getReceived(OpCode.IDENTIFY).length > 0);
+  await client.close({ resumable: true });
+
+  await expect(connecting).rejects.toThrow('Connection closed before ready');
+  await client.close();
+});
+
+test('a sequence flush already in flight never writes onto a newer session', async () => {
+  const storage = new FileSessionStorage(SESSION_PATH, { sequenceFlushInterval: 1 });
+  const session = { token: 'token', resumeGatewayUrl: 'ws://127.0.0.1:1', timestamp: Date.now() };
+  await storage.save('token', { ...session, sessionId: 'old', sequence: 5 });
+
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => release = resolve);
+  const realLoad = storage.load.bind(storage);
+  const load = spyOn(storage, 'load').mockImplementationOnce(async (token) => {
+    const stored = await realLoad(token);
+    await gate;
+    return stored;
+  });
+
+  await storage.updateSequence('token', 9);
+  await waitUntil(() => load.mock.calls.length > 0);
+  await storage.save('token', { ...session, sessionId: 'new', sequence: 1 });
+  release();
+  await sleep(20);
+  load.mockRestore();
+
+  expect(await storage.load('token')).toMatchObject({ sessionId: 'new', sequence: 1 });
+});
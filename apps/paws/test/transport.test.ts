@@ -0,0 +1,62 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createServer, connect, type Server, type Socket } from 'node:net';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { getWebSocketTransportSupport } from '@/gateway/transport';
+import { createClient } from './helpers';
+
+let server: MockGatewayServer;
+let proxy: Server | undefined;
+
+afterEach(() => {
+  server?.stop();
+  proxy?.close();
+  proxy = undefined;
+});
+
+/**
+ * Minimal HTTP CONNECT proxy that records every tunnel it opens.
+ */
+function startProxy(tunnels: string[]): Promise<string> {
+  const sockets: Socket[] = [];
+  proxy = createServer((client) => {
+    sockets.push(client);
+    client.once('data', (chunk) => {
+      const target = /^CONNECT (\S+)/.exec(chunk.toString())?.[1];
+      if (!target) {
+        client.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+      }
+      tunnels.push(target);
+      const [host, port] = target.split(':');
+      const upstream = connect(Number(port), host, () => {
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        client.pipe(upstream).pipe(client);
+      });
+      upstream.on('error', () => client.destroy());
+      sockets.push(upstream);
+    });
+  });
+  proxy.on('close', () => sockets.forEach(socket => socket.destroy()));
+
+  return new Promise(resolve => proxy!.listen(0, '127.0.0.1', () => {
+    const address = proxy!.address();
+    resolve(`http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`);
+  }));
+}
+
+test('a proxy is either tunnelled through or refused, never bypassed', async () => {
+  server = new MockGatewayServer();
+  const url = server.start();
+  const tunnels: string[] = [];
+  const client = createClient(url, { transportOptions: { proxy: await startProxy(tunnels) } });
+
+  if (getWebSocketTransportSupport().proxy) {
+    await client.connect();
+    expect(tunnels).toEqual([new URL(url).host]);
+  } else {
+    await expect(client.connect()).rejects.toThrow('cannot use a proxy');
+    expect(server.getConnectionIds()).toHaveLength(0);
+  }
+
+  await client.close();
+});
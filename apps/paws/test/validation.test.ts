@@ -0,0 +1,59 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import type { SchemaMismatch, ValidationMode } from '@/gateway/DiscordWebSocket';
+import type { ChannelPinsUpdate, GuildCreate } from '@/gateway/types';
+import { createClient, sleep, waitUntil } from './helpers';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+async function connectWith(validation: ValidationMode) {
+  server = new MockGatewayServer();
+  const client = createClient(server.start(), { validation });
+  const mismatches: SchemaMismatch[] = [];
+  client.on('schemaMismatch', mismatch => mismatches.push(mismatch));
+  await client.connect();
+  return { client, mismatches };
+}
+
+test('strict mode accepts the unavailable GUILD_CREATE stub', async () => {
+  const { client, mismatches } = await connectWith('strict');
+  const guilds: GuildCreate[] = [];
+  client.on('guildCreate', guild => guilds.push(guild));
+
+  server.dispatch('GUILD_CREATE', { id: '81384788765712384', unavailable: true });
+
+  await waitUntil(() => guilds.length > 0);
+  expect(guilds[0]).toEqual({ id: '81384788765712384', unavailable: true });
+  expect(mismatches).toHaveLength(0);
+  await client.close();
+});
+
+test('strict mode drops a malformed dispatch and reports where it failed', async () => {
+  const { client, mismatches } = await connectWith('strict');
+  const pins: ChannelPinsUpdate[] = [];
+  client.on('channelPinsUpdate', update => pins.push(update));
+
+  server.dispatch('CHANNEL_PINS_UPDATE', { channel_id: 42 });
+
+  await waitUntil(() => mismatches.length > 0);
+  await sleep(20);
+  expect(mismatches[0]).toMatchObject({ event: 'CHANNEL_PINS_UPDATE', mode: 'strict', paths: ['channel_id'], dropped: true });
+  expect(pins).toHaveLength(0);
+  await client.close();
+});
+
+test('warn mode reports the mismatch but still delivers the dispatch', async () => {
+  const { client, mismatches } = await connectWith('warn');
+  const pins: ChannelPinsUpdate[] = [];
+  client.on('channelPinsUpdate', update => pins.push(update));
+
+  server.dispatch('CHANNEL_PINS_UPDATE', { channel_id: 42 });
+
+  await waitUntil(() => pins.length > 0);
+  expect(mismatches[0]).toMatchObject({ mode: 'warn', dropped: false });
+  await client.close();
+});
@@ -0,0 +1,76 @@
+import { afterEach, expect, test } from 'bun:test';
+import { MockGatewayServer } from '@/testing/MockGatewayServer';
+import { OpCode } from '@/gateway/opcodes';
+import { createClient, waitUntil } from './helpers';
+
+const GUILD_ID = '81384788765712384';
+const CHANNEL_ID = '81384788765712390';
+
+let server: MockGatewayServer;
+
+afterEach(() => {
+  server?.stop();
+});
+
+function voiceState(channelId: string | null) {
+  return {
+    guild_id: GUILD_ID,
+    channel_id: channelId,
+    user_id: '1',
+    session_id: 'voice-session',
+    deaf: false,
+    mute: false,
+    self_deaf: true,
+    self_mute: false,
+    self_video: false,
+    suppress: false
+  };
+}
+
+test('joinVoiceChannel resolves once both the voice state and voice server have arrived', async () => {
+  server = new MockGatewayServer();
+  server.on('payload', ({ op }) => {
+    if (op !== OpCode.VOICE_STATE) return;
+    // Discord may deliver these in either order, and a null endpoint first.
+    server.dispatch('VOICE_SERVER_UPDATE', { token: 'voice-token', guild_id: GUILD_ID, endpoint: null });
+    server.dispatch('VOICE_SERVER_UPDATE', { token: 'voice-token', guild_id: GUILD_ID, endpoint: 'us-east1.discord.media' });
+    server.dispatch('VOICE_STATE_UPDATE', voiceState(CHANNEL_ID));
+  });
+  const client = createClient(server.start());
+  await client.connect();
+
+  const info = await client.joinVoiceChannel(GUILD_ID, CHANNEL_ID, { selfDeaf: true });
+
+  expect(info).toEqual({
+    guildId: GUILD_ID,
+    channelId: CHANNEL_ID,
+    userId: '1',
+    sessionId: 'voice-session',
+    token: 'voice-token',
+    endpoint: 'us-east1.discord.media'
+  });
+  expect(server.getReceived(OpCode.VOICE_STATE).map(received => received.d)).toEqual([{
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    self_mute: false,
+    self_deaf: true
+  }]);
+  await client.close();
+});
+
+test('leaveVoiceChannel rejects a pending join and sends a null channel', async () => {
+  server = new MockGatewayServer();
+  const client = createClient(server.start());
+  await client.connect();
+
+  const join = client.joinVoiceChannel(GUILD_ID, CHANNEL_ID);
+  await client.leaveVoiceChannel(GUILD_ID);
+
+  await expect(join).rejects.toThrow('Left voice channel');
+  await waitUntil(() => server.getReceived(OpCode.VOICE_STATE).length === 2);
+  expect(server.getReceived(OpCode.VOICE_STATE).map(received => received.d)).toEqual([
+    { guild_id: GUILD_ID, channel_id: CHANNEL_ID, self_mute: false, self_deaf: false },
+    { guild_id: GUILD_ID, channel_id: null, self_mute: false, self_deaf: false }
+  ]);
+  await client.close();
+});
@@ -11,6 +11,10 @@ export interface ConnectionMetrics {
     bytesSent: number;
     averageLatency: number;
     lastHeartbeatLatency: number;
+    /** Heartbeat latency percentiles over the last 100 ACKs. */
+    p50Latency: number;
+    p95Latency: number;
+    p99Latency: number;
     uptime: number;
     lastConnectedAt: number | null;
     lastDisconnectedAt: number | null;
@@ -30,6 +34,9 @@ export class ConnectionMonitor {
         bytesSent: 0,
         averageLatency: 0,
         lastHeartbeatLatency: 0,
+        p50Latency: 0,
+        p95Latency: 0,
+        p99Latency: 0,
         uptime: 0,
         lastConnectedAt: null,
         lastDisconnectedAt: null
@@ -37,6 +44,8 @@ export class ConnectionMonitor {
 
     private heartbeatTimestamps: number[] = [];
     private maxHeartbeatHistory = 10;
+    private latencySamples: number[] = [];
+    private maxLatencySamples = 100;
 
     recordConnectAttempt(): void {
         this.metrics.connectAttempts++;
@@ -72,7 +81,14 @@ export class ConnectionMonitor {
             this.heartbeatTimestamps.shift();
         }
 
+        this.latencySamples.push(latency);
+
+        if (this.latencySamples.length > this.maxLatencySamples) {
+            this.latencySamples.shift();
+        }
+
         this.updateAverageLatency();
+        this.updateLatencyPercentiles();
     }
 
     recordHeartbeatFailure(): void {
@@ -98,6 +114,25 @@ export class ConnectionMonitor {
         this.metrics.averageLatency = sum / this.heartbeatTimestamps.length;
     }
 
+    private updateLatencyPercentiles(): void {
+        this.metrics.p50Latency = this.getLatencyPercentile(50);
+        this.metrics.p95Latency = this.getLatencyPercentile(95);
+        this.metrics.p99Latency = this.getLatencyPercentile(99);
+    }
+
+    /**
+     * Nearest-rank percentile of recent heartbeat latencies, 0 when there are no samples.
+     */
+    getLatencyPercentile(percentile: number): number {
+        if (this.latencySamples.length === 0) {
+            return 0;
+        }
+
+        const sorted = [...this.latencySamples].sort((a, b) => a - b);
+        const rank = Math.ceil((percentile / 100) * sorted.length);
+        return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? 0;
+    }
+
     getMetrics(): Readonly<ConnectionMetrics> {
         return { ...this.metrics };
     }
@@ -170,11 +205,15 @@ export class ConnectionMonitor {
             bytesSent: 0,
             averageLatency: 0,
             lastHeartbeatLatency: 0,
+            p50Latency: 0,
+            p95Latency: 0,
+            p99Latency: 0,
             uptime: 0,
             lastConnectedAt: null,
             lastDisconnectedAt: null
         };
         this.heartbeatTimestamps = [];
+        this.latencySamples = [];
     }
 
     getUptime(): number {
@@ -1,4 +1,5 @@
 export type EventCallback<T = void> = (data: T) => void;
+export type AnyEventCallback<TEvents extends object> = (event: keyof TEvents, data: TEvents[keyof TEvents]) => void;
 
 /**
  * Type-safe event emitter for subscribing to typed events.
@@ -6,6 +7,7 @@ export type EventCallback<T = void> = (data: T) => void;
  */
 export class EventEmitter<TEvents extends object> {
     private listeners = new Map<keyof TEvents, Set<EventCallback<unknown>>>();
+    private anyListeners = new Set<AnyEventCallback<TEvents>>();
 
     on<K extends keyof TEvents>(event: K, callback: EventCallback<TEvents[K]>): void {
         if (!this.listeners.has(event)) {
@@ -18,12 +20,30 @@ export class EventEmitter<TEvents extends object> {
         this.listeners.get(event)?.delete(callback as EventCallback<unknown>);
     }
 
+    /**
+     * Subscribe to every event, e.g. for forwarding or tagging.
+     * Cleared by removeAllListeners() without an event name.
+     */
+    onAny(callback: AnyEventCallback<TEvents>): void {
+        this.anyListeners.add(callback);
+    }
+
+    offAny(callback: AnyEventCallback<TEvents>): void {
+        this.anyListeners.delete(callback);
+    }
+
     emit<K extends keyof TEvents>(event: K, data: TEvents[K]): void {
         this.listeners.get(event)?.forEach(cb => void cb(data));
+        this.anyListeners.forEach(cb => void cb(event, data));
     }
 
     removeAllListeners<K extends keyof TEvents>(event?: K): void {
-        event === undefined ? this.listeners.clear() : this.listeners.delete(event);
+        if (event === undefined) {
+            this.listeners.clear();
+            this.anyListeners.clear();
+        } else {
+            this.listeners.delete(event);
+        }
     }
 
     listenerCount<K extends keyof TEvents>(event: K): number {
@@ -5,9 +5,16 @@ interface RateLimitEntry {
     retryAfter: number;
 }
 
+interface SendWindow {
+    limit: number;
+    window: number;
+    sent: number[];
+}
+
 export class RateLimiter {
     private rateLimits: Map<number, RateLimitEntry[]> = new Map();
     private pendingRetries: Map<number, ReturnType<typeof setTimeout>> = new Map();
+    private sendWindows: Map<number, SendWindow> = new Map();
     private maxHistorySize = 100;
 
     private isRateLimited(op: number): boolean {
@@ -38,6 +45,46 @@ export class RateLimiter {
         return Math.max(0, waitTime);
     }
 
+    private getWindowWaitTime(op: number): number {
+        const sendWindow = this.sendWindows.get(op);
+        if (!sendWindow) return 0;
+
+        const now = Date.now();
+        sendWindow.sent = sendWindow.sent.filter(timestamp => timestamp + sendWindow.window > now);
+        if (sendWindow.sent.length < sendWindow.limit) return 0;
+
+        const oldest = sendWindow.sent[0] ?? now;
+        return Math.max(0, oldest + sendWindow.window - now);
+    }
+
+    /**
+     * Client-side budget for an opcode: at most `limit` sends per `window`
+     * milliseconds, so we slow down before the gateway has to tell us to.
+     */
+    setLimit(op: number, limit: number, window: number): void {
+        this.sendWindows.set(op, { limit, window, sent: this.sendWindows.get(op)?.sent ?? [] });
+    }
+
+    removeLimit(op: number): void {
+        this.sendWindows.delete(op);
+    }
+
+    recordSend(op: number): void {
+        this.sendWindows.get(op)?.sent.push(Date.now());
+    }
+
+    /**
+     * Waits for both a RATE_LIMITED cooldown and the send budget, then takes one send from the budget.
+     */
+    async acquire(op: number): Promise<void> {
+        let waitTime = this.getWaitTime(op);
+        while (waitTime > 0) {
+            await new Promise(resolve => setTimeout(resolve, waitTime));
+            waitTime = this.getWaitTime(op);
+        }
+        this.recordSend(op);
+    }
+
     trackRateLimit(op: number, data: RateLimited): void {
         const entries = this.rateLimits.get(op) ?? [];
         entries.push({
@@ -53,15 +100,15 @@ export class RateLimiter {
     }
 
     canProceed(op: number): boolean {
-        return !this.isRateLimited(op);
+        return this.getWaitTime(op) === 0;
     }
 
     getWaitTime(op: number): number {
-        return this.getWaitTimeFromEntries(op);
+        return Math.max(this.getWaitTimeFromEntries(op), this.getWindowWaitTime(op));
     }
 
     async waitForAvailability(op: number): Promise<void> {
-        const waitTime = this.getWaitTimeFromEntries(op);
+        const waitTime = this.getWaitTime(op);
 
         if (waitTime > 0) {
             await new Promise(resolve => setTimeout(resolve, waitTime));
@@ -71,10 +118,17 @@ export class RateLimiter {
     clear(op?: number): void {
         if (op === undefined) {
             this.rateLimits.clear();
+            this.sendWindows.forEach(sendWindow => {
+                sendWindow.sent = [];
+            });
             this.pendingRetries.forEach(timer => clearTimeout(timer));
             this.pendingRetries.clear();
         } else {
             this.rateLimits.delete(op);
+            const sendWindow = this.sendWindows.get(op);
+            if (sendWindow) {
+                sendWindow.sent = [];
+            }
             const timer = this.pendingRetries.get(op);
             if (timer) {
                 clearTimeout(timer);
@@ -91,7 +145,7 @@ export class RateLimiter {
         const entries = this.rateLimits.get(op) ?? [];
         return {
             isRateLimited: this.isRateLimited(op),
-            waitTime: this.getWaitTimeFromEntries(op),
+            waitTime: this.getWaitTime(op),
             entryCount: entries.length
         };
     }